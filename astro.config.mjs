@@ -12,6 +12,12 @@ export default defineConfig({
     tailwind(),
     react(),
   ],
+  vite: {
+    // The processing worker lazy-loads pdf.js and mammoth, which needs code splitting
+    worker: {
+      format: "es",
+    },
+  },
   devToolbar: {
     enabled: false,
   },
@@ -174,4 +174,18 @@ export class BaseCrudService {
       );
     }
   }
+
+  /**
+   * Deletes every item in the collection
+   */
+  static async clear(collectionId: string): Promise<void> {
+    try {
+      saveCollectionStorage(collectionId, []);
+    } catch (error) {
+      console.error(`Error clearing ${collectionId}:`, error);
+      throw new Error(
+        error instanceof Error ? error.message : `Failed to clear ${collectionId}`
+      );
+    }
+  }
 }
@@ -1,7 +1,8 @@
 /**
  * Documents Page - Full document management interface
  */
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   FileText,
@@ -16,6 +17,11 @@ import {
   Eye,
   RefreshCw,
   Filter,
+  Pause,
+  Play,
+  X,
+  History,
+  RotateCcw,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -24,7 +30,9 @@ import { Badge } from '@/components/ui/badge';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import { DocumentUpload } from '@/components/ui/document-upload';
-import { documentService, type Document } from '@/services/document-service';
+import { VersionDiff } from '@/components/ui/version-diff';
+import { documentService, type Document, type DocumentRevision } from '@/services/document-service';
+import type { IndexingJob } from '@/services/indexing-queue';
 import { formatDistanceToNow } from 'date-fns';
 
 export default function DocumentsPage() {
@@ -33,6 +41,18 @@ export default function DocumentsPage() {
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [showUpload, setShowUpload] = useState(false);
   const [selectedDoc, setSelectedDoc] = useState<Document | null>(null);
+  const [jobs, setJobs] = useState<Record<string, IndexingJob>>({});
+  const [retryErrors, setRetryErrors] = useState<Record<string, string>>({});
+  // Passage to highlight in the preview (character offsets into the document content)
+  const [highlight, setHighlight] = useState<{ documentId: string; start: number; end: number } | null>(null);
+  const highlightRef = useRef<HTMLElement>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Earlier version compared against the current content in the preview
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+  // Versions of the previewed document, newest (the current content) first
+  const [versions, setVersions] = useState<DocumentRevision[]>([]);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(documentService.getSaveError());
 
   // Load documents
   useEffect(() => {
@@ -45,6 +65,117 @@ export default function DocumentsPage() {
     return unsubscribe;
   }, []);
 
+  // Documents that could not be saved in this browser are lost on reload
+  useEffect(() => documentService.onSaveError(setSaveError), []);
+
+  // Track background indexing jobs
+  useEffect(() => {
+    const toMap = (list: IndexingJob[]) => Object.fromEntries(list.map(job => [job.id, job]));
+    setJobs(toMap(documentService.getJobs()));
+    return documentService.onJobsUpdate((list) => setJobs(toMap(list)));
+  }, []);
+
+  // /documents?doc=<id>&start=<offset>&end=<offset> (linked from answer citations) previews the cited passage
+  useEffect(() => {
+    const id = searchParams.get('doc');
+    const doc = id && documents.find(d => d.id === id);
+    if (!doc) return;
+
+    const start = Number(searchParams.get('start'));
+    const end = Number(searchParams.get('end'));
+    setSelectedDoc(doc);
+    setHighlight(Number.isInteger(start) && Number.isInteger(end) && end > start ? { documentId: doc.id, start, end } : null);
+  }, [searchParams, documents]);
+
+  // Bring the highlighted passage into view once the preview has rendered it
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [selectedDoc, highlight]);
+
+  // Each preview starts on the current content
+  useEffect(() => {
+    setCompareVersion(null);
+    setRestoreError(null);
+  }, [selectedDoc?.id]);
+
+  // Load the previewed document's versions again whenever documents change (e.g. after a restore)
+  useEffect(() => {
+    if (!selectedDoc) {
+      setVersions([]);
+      return;
+    }
+    let cancelled = false;
+    documentService.getVersions(selectedDoc.id)
+      .then(list => {
+        if (!cancelled) setVersions(list);
+      })
+      .catch(error => {
+        console.error('Error loading document versions:', error);
+        if (!cancelled) setVersions([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedDoc, documents]);
+
+  const closePreview = () => {
+    setSelectedDoc(null);
+    setHighlight(null);
+    if (searchParams.has('doc')) setSearchParams({}, { replace: true });
+  };
+
+  // Preview text with the highlighted passage marked, when it belongs to this document
+  const renderPreviewContent = (doc: Document) => {
+    if (!doc.content) return 'No content available';
+    if (!highlight || highlight.documentId !== doc.id) return doc.content;
+
+    const start = Math.min(highlight.start, doc.content.length);
+    const end = Math.min(highlight.end, doc.content.length);
+    return (
+      <>
+        {doc.content.slice(0, start)}
+        <mark ref={highlightRef} className="bg-softyellowaccent/60 text-primary rounded px-0.5">
+          {doc.content.slice(start, end)}
+        </mark>
+        {doc.content.slice(end)}
+      </>
+    );
+  };
+
+  // Restoring saves the old content as a new version and re-indexes it
+  const restoreVersion = async (doc: Document, version: number) => {
+    setCompareVersion(null);
+    setRestoreError(null);
+    try {
+      await documentService.rollbackDocument(doc.id, version);
+    } catch (err) {
+      setRestoreError(err instanceof Error ? err.message : 'Restore failed');
+    }
+  };
+
+  const retryDocument = async (id: string) => {
+    setRetryErrors(prev => ({ ...prev, [id]: '' }));
+    try {
+      await documentService.retryDocument(id);
+    } catch (err) {
+      setRetryErrors(prev => ({ ...prev, [id]: err instanceof Error ? err.message : 'Retry failed' }));
+    }
+  };
+
+  const describeJob = (job: IndexingJob | undefined): string | null => {
+    if (!job) return null;
+    switch (job.status) {
+      case 'queued':
+        return 'Queued';
+      case 'paused':
+        return 'Paused';
+      case 'running':
+        return job.progress ? `${job.progress.status} · ${job.progress.progress}%` : 'Starting';
+      default:
+        return null;
+    }
+  };
+
   // Filter documents
   const filteredDocuments = documents.filter(doc => {
     const matchesSearch = doc.title.toLowerCase().includes(searchQuery.toLowerCase());
@@ -53,6 +184,7 @@ export default function DocumentsPage() {
   });
 
   const stats = documentService.getStats();
+  const comparedRevision = versions.slice(1).find(revision => revision.version === compareVersion);
 
   const getStatusIcon = (status: Document['status']) => {
     switch (status) {
@@ -93,6 +225,13 @@ export default function DocumentsPage() {
             </Button>
           </div>
 
+          {saveError && (
+            <div className="flex items-center gap-3 p-4 mb-8 bg-red-50 rounded-xl">
+              <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+              <p className="text-sm text-red-700">{saveError}</p>
+            </div>
+          )}
+
           {/* Stats */}
           <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-12">
             {[
@@ -221,6 +360,9 @@ export default function DocumentsPage() {
                           <span className="flex items-center gap-1">
                             {getStatusIcon(doc.status)}
                             {doc.status}
+                            {describeJob(jobs[doc.id]) && (
+                              <span className="text-primary/40">({describeJob(jobs[doc.id])})</span>
+                            )}
                           </span>
                           <span className="flex items-center gap-1">
                             <Database className="w-3 h-3" />
@@ -234,10 +376,57 @@ export default function DocumentsPage() {
                         {doc.error && (
                           <p className="text-sm text-red-500 mt-2">{doc.error}</p>
                         )}
+                        {retryErrors[doc.id] && (
+                          <p className="text-sm text-red-500 mt-2">{retryErrors[doc.id]}</p>
+                        )}
                       </div>
 
                       {/* Actions */}
                       <div className="flex items-center gap-2">
+                        {doc.status === 'error' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => retryDocument(doc.id)}
+                            className="rounded-lg"
+                          >
+                            <RefreshCw className="w-4 h-4 mr-2" />
+                            Retry
+                          </Button>
+                        )}
+                        {(jobs[doc.id]?.status === 'queued' || jobs[doc.id]?.status === 'running') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => documentService.pauseIndexing(doc.id)}
+                            className="rounded-lg"
+                            title="Pause indexing"
+                          >
+                            <Pause className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {jobs[doc.id]?.status === 'paused' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => documentService.resumeIndexing(doc.id)}
+                            className="rounded-lg"
+                            title="Resume indexing"
+                          >
+                            <Play className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {jobs[doc.id] && jobs[doc.id].status !== 'failed' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => documentService.cancelIndexing(doc.id)}
+                            className="rounded-lg"
+                            title="Cancel indexing"
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -270,7 +459,7 @@ export default function DocumentsPage() {
                 animate={{ opacity: 1 }}
                 exit={{ opacity: 0 }}
                 className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-6"
-                onClick={() => setSelectedDoc(null)}
+                onClick={closePreview}
               >
                 <motion.div
                   initial={{ scale: 0.9, opacity: 0 }}
@@ -284,15 +473,52 @@ export default function DocumentsPage() {
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => setSelectedDoc(null)}
+                      onClick={closePreview}
                     >
                       ✕
                     </Button>
                   </div>
+                  {restoreError && (
+                    <p className="px-6 py-3 border-b border-primary/10 text-sm text-red-600">{restoreError}</p>
+                  )}
+                  {versions.length > 1 && (
+                    <div className="px-6 py-3 border-b border-primary/10 flex flex-wrap items-center gap-3 text-sm text-primary/70">
+                      <History className="w-4 h-4" />
+                      <span>Version {versions[0].version}</span>
+                      <select
+                        title="Compare with an earlier version"
+                        aria-label="Compare with an earlier version"
+                        value={compareVersion ?? ''}
+                        onChange={(e) => setCompareVersion(e.target.value ? Number(e.target.value) : null)}
+                        className="h-9 rounded-lg border border-primary/10 px-3 bg-white"
+                      >
+                        <option value="">Current content</option>
+                        {versions.slice(1).map(revision => (
+                          <option key={revision.version} value={revision.version}>
+                            Changes since v{revision.version} ({formatDistanceToNow(revision.savedAt, { addSuffix: true })})
+                          </option>
+                        ))}
+                      </select>
+                      {comparedRevision && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => restoreVersion(selectedDoc, comparedRevision.version)}
+                          className="rounded-full"
+                        >
+                          <RotateCcw className="w-3 h-3 mr-2" /> Restore v{comparedRevision.version}
+                        </Button>
+                      )}
+                    </div>
+                  )}
                   <div className="p-6 overflow-y-auto max-h-[60vh]">
-                    <pre className="whitespace-pre-wrap font-mono text-sm text-primary/80 bg-primary/5 p-4 rounded-xl">
-                      {selectedDoc.content || 'No content available'}
-                    </pre>
+                    {comparedRevision ? (
+                      <VersionDiff oldText={comparedRevision.content} newText={selectedDoc.content} />
+                    ) : (
+                      <pre className="whitespace-pre-wrap font-mono text-sm text-primary/80 bg-primary/5 p-4 rounded-xl">
+                        {renderPreviewContent(selectedDoc)}
+                      </pre>
+                    )}
                   </div>
                 </motion.div>
               </motion.div>
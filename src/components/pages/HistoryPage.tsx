@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Clock, FileText, Star, Trash2 } from 'lucide-react';
+import { Clock, FileText, MessagesSquare, Star, Trash2 } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -9,6 +9,7 @@ import Footer from '@/components/Footer';
 import { BaseCrudService } from '@/integrations';
 import { QueryHistory } from '@/entities';
 import { formatDistanceToNow } from 'date-fns';
+import { Link } from 'react-router-dom';
 
 export default function HistoryPage() {
   const [queries, setQueries] = useState<QueryHistory[]>([]);
@@ -31,6 +32,12 @@ export default function HistoryPage() {
     setIsLoading(false);
   };
 
+  // Questions asked in each conversation, for the "continue" links
+  const sessionSizes = queries.reduce((sizes, q) => {
+    if (q.sessionId) sizes.set(q.sessionId, (sizes.get(q.sessionId) || 0) + 1);
+    return sizes;
+  }, new Map<string, number>());
+
   const handleDelete = async (id: string) => {
     await BaseCrudService.delete('queryhistory', id);
     setQueries(queries.filter(q => q._id !== id));
@@ -97,14 +104,30 @@ export default function HistoryPage() {
                           </p>
                         </div>
                       </div>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleDelete(query._id)}
-                        className="text-destructive hover:text-destructive hover:bg-destructive/10 rounded-full"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
+                      <div className="flex items-center gap-2">
+                        {query.sessionId && (
+                          <Button
+                            asChild
+                            variant="ghost"
+                            size="sm"
+                            className="text-primary/70 hover:text-primary rounded-full"
+                          >
+                            <Link to={`/?session=${encodeURIComponent(query.sessionId)}#query-interface`}>
+                              <MessagesSquare className="w-4 h-4 mr-2" />
+                              Continue conversation
+                              {sessionSizes.get(query.sessionId)! > 1 && ` (${sessionSizes.get(query.sessionId)} questions)`}
+                            </Link>
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(query._id)}
+                          className="text-destructive hover:text-destructive hover:bg-destructive/10 rounded-full"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
                     </div>
 
                     <div className="mb-4">
@@ -18,8 +18,11 @@ import {
   Bot,
   Upload,
   Settings,
-  Key
+  Key,
+  Square,
+  MessageSquarePlus
 } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -29,10 +32,18 @@ import { Image } from '@/components/ui/image';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import { BaseCrudService } from '@/integrations';
-import { KnowledgeBaseDocuments } from '@/entities';
+import { KnowledgeBaseDocuments, QueryHistory } from '@/entities';
 import { formatDistanceToNow } from 'date-fns';
-import { aiService, documentService, type Document } from '@/services';
+import { aiService, documentService, type AnswerVerification, type Document, type RetrievalDebug } from '@/services';
+import { LOCAL_EMBEDDING_MODEL } from '@/services/local-embeddings';
+import { getProviderOption } from '@/services/llm-providers';
 import { DocumentUpload } from '@/components/ui/document-upload';
+import { RetrievalDetails } from '@/components/ui/retrieval-details';
+import { CitedAnswer } from '@/components/ui/cited-answer';
+import type { Citation } from '@/services/citations';
+import type { ConfidenceBreakdown } from '@/services/confidence';
+import { useAI } from '@/hooks/use-ai';
+import { useSettings } from '@/hooks/use-settings';
 
 // --- Types ---
 type AnimatedElementProps = {
@@ -41,6 +52,34 @@ type AnimatedElementProps = {
   delay?: number;
 };
 
+type SourceSummary = {
+  title: string;
+  relevanceScore?: number;
+  pageNumbers?: number[];
+  sections?: string[];
+};
+
+// One question and its answer in the current conversation
+type ConversationTurnView = {
+  id: string;
+  question: string;
+  // Date (yyyy-mm-dd) the question was answered "as of", if not the current documents
+  asOf?: string;
+  answer: string;
+  sources: SourceSummary[];
+  // Passages the answer cites inline; empty for conversations reopened from history
+  citations: Citation[];
+  processingTime: number;
+  cached: boolean;
+  retrieval: RetrievalDebug | null;
+  confidence: ConfidenceBreakdown | null;
+  verification: AnswerVerification | null;
+  // False when the documentation did not seem to cover the question, so the model was not asked
+  answered: boolean;
+  // Finished answers are sent back as history with follow-up questions
+  complete: boolean;
+};
+
 // --- Utility Components ---
 
 const AnimatedElement: React.FC<AnimatedElementProps> = ({ children, className, delay = 0 }) => {
@@ -67,6 +106,27 @@ const AnimatedElement: React.FC<AnimatedElementProps> = ({ children, className,
   return <div ref={ref} className={`opacity-0 translate-y-8 transition-all duration-1000 ease-out ${className || ''}`}>{children}</div>;
 };
 
+// Tooltip with the signals behind a confidence score
+const describeConfidence = (confidence: ConfidenceBreakdown): string =>
+  [
+    `Retrieval ${Math.round(confidence.retrieval * 100)}%`,
+    `question coverage ${Math.round(confidence.coverage * 100)}%`,
+    confidence.groundedness !== undefined && `groundedness ${Math.round(confidence.groundedness * 100)}%`,
+  ].filter(Boolean).join(', ');
+
+// Summary of an answer's claim-by-claim verification
+const describeVerification = (verification: AnswerVerification): string => {
+  const unsupported = verification.claims.filter(claim => !claim.supported).length;
+  const checkedBy = verification.verifier === 'lexical' ? 'word overlap' : 'the AI model';
+  return unsupported === 0
+    ? `All ${verification.claims.length} statements are supported by the documentation (checked by ${checkedBy}).`
+    : `${unsupported} of ${verification.claims.length} statements (underlined) could not be verified against the documentation (checked by ${checkedBy}).`;
+};
+
+// Threads asked during this visit, by session, so leaving for a cited passage and coming back
+// restores them with their citations and scores (history entries only keep the text)
+const conversationCache = new Map<string, ConversationTurnView[]>();
+
 const SectionDivider = () => (
   <div className="w-full flex justify-center items-center py-12 opacity-20">
     <div className="h-px w-full max-w-[200px] bg-gradient-to-r from-transparent via-primary to-transparent" />
@@ -79,31 +139,31 @@ export default function HomePage() {
   // --- Canonical Data Sources ---
   const [query, setQuery] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [answer, setAnswer] = useState('');
-  const [sources, setSources] = useState<{ title: string; relevanceScore?: number }[]>([]);
+  const [turns, setTurns] = useState<ConversationTurnView[]>([]);
+  // Answer from the documents as they were on this date (yyyy-mm-dd); empty for the current versions
+  const [asOf, setAsOf] = useState('');
+  const [sessionId, setSessionId] = useState<string>(() => crypto.randomUUID());
+  const [searchParams, setSearchParams] = useSearchParams();
   const [documents, setDocuments] = useState<KnowledgeBaseDocuments[]>([]);
   const [localDocs, setLocalDocs] = useState<Document[]>([]);
   const [loadingDocs, setLoadingDocs] = useState(false);
   const [showUpload, setShowUpload] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [openaiKey, setOpenaiKey] = useState('');
-  const [processingTime, setProcessingTime] = useState<number>(0);
   const [indexedCount, setIndexedCount] = useState(0);
+  const { streamQuery, cancel } = useAI();
 
-  // Load OpenAI key from localStorage
+  const { settings, updateSettings } = useSettings();
+
+  // Show the saved API key (kept in sync with the Settings page)
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const savedKey = localStorage.getItem('docu-query-openai-key');
-      if (savedKey) setOpenaiKey(savedKey);
-    }
-  }, []);
+    setOpenaiKey(settings.openaiApiKey);
+  }, [settings.openaiApiKey]);
 
-  // Save OpenAI key to localStorage
+  // Save API key to settings
   const saveApiKey = () => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('docu-query-openai-key', openaiKey);
-      setShowSettings(false);
-    }
+    updateSettings({ openaiApiKey: openaiKey });
+    setShowSettings(false);
   };
 
   // --- Logic Preservation ---
@@ -111,25 +171,71 @@ export default function HomePage() {
     e.preventDefault();
     if (!query.trim()) return;
 
+    const question = query;
+    const turnId = crypto.randomUUID();
+    const history = turns
+      .filter(turn => turn.complete)
+      .map(turn => ({ question: turn.question, answer: turn.answer }));
+    const updateTurn = (changes: Partial<ConversationTurnView>) =>
+      setTurns(prev => prev.map(turn => turn.id === turnId ? { ...turn, ...changes } : turn));
+
     setIsLoading(true);
-    setAnswer(''); // Clear previous answer for animation effect
-    setSources([]);
+    setQuery('');
+    // Put the thread in the URL so coming back to this page (e.g. from a citation) reopens it
+    if (searchParams.get('session') !== sessionId) {
+      setSearchParams({ session: sessionId }, { replace: true });
+    }
+    setTurns(prev => [...prev, {
+      id: turnId,
+      question,
+      asOf: asOf || undefined,
+      answer: '',
+      sources: [],
+      citations: [],
+      processingTime: 0,
+      cached: false,
+      retrieval: null,
+      confidence: null,
+      verification: null,
+      answered: true,
+      complete: false,
+    }]);
     
     try {
-      // Use the AI service for real RAG query
-      const response = await aiService.query(query);
-      
-      setAnswer(response.answer);
-      setSources(response.sources.map(s => ({ 
-        title: s.title, 
-        relevanceScore: s.relevanceScore 
-      })));
-      setProcessingTime(response.processingTime);
+      // Stream the answer so tokens render as they are generated; earlier turns give follow-ups context
+      const response = await streamQuery(question, {
+        onSources: (retrieved, citations) => updateTurn({
+          sources: retrieved.map(s => ({
+            title: s.title,
+            relevanceScore: s.relevanceScore,
+            pageNumbers: s.pageNumbers,
+            sections: s.sections,
+          })),
+          citations,
+        }),
+        onToken: (_token, partialAnswer) => updateTurn({ answer: partialAnswer }),
+      }, history, asOf ? new Date(`${asOf}T23:59:59.999`) : undefined);
+
+      // Cancelled mid-stream: keep the partial answer, skip history
+      if (!response) return;
+
+      updateTurn({
+        answer: response.answer,
+        citations: response.citations,
+        processingTime: response.processingTime,
+        cached: response.cached,
+        retrieval: response.retrieval,
+        confidence: response.confidenceDetails,
+        verification: response.verification,
+        answered: response.answered,
+        complete: true,
+      });
       
       // Save to query history
       await BaseCrudService.create('queryhistory', {
         _id: crypto.randomUUID(),
-        userQuery: query,
+        sessionId,
+        userQuery: question,
         aiAnswer: response.answer,
         queryTimestamp: new Date(),
         sourceDocuments: response.sources.map(s => s.title).join(', '),
@@ -137,12 +243,66 @@ export default function HomePage() {
       });
     } catch (error) {
       console.error('Query error:', error);
-      setAnswer('An error occurred while processing your query. Please try again.');
+      updateTurn({ answer: 'An error occurred while processing your query. Please try again.' });
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Reopen a saved conversation from its history entries, oldest first
+  const loadConversation = async (id: string) => {
+    const cached = conversationCache.get(id);
+    if (cached) {
+      setSessionId(id);
+      setTurns(cached);
+      return;
+    }
+
+    try {
+      const { items } = await BaseCrudService.getAll<QueryHistory>('queryhistory');
+      const thread = items
+        .filter(item => item.sessionId === id)
+        .sort((a, b) => new Date(a.queryTimestamp || 0).getTime() - new Date(b.queryTimestamp || 0).getTime());
+
+      setSessionId(id);
+      setTurns(thread.map(item => ({
+        id: item._id,
+        question: item.userQuery || '',
+        answer: item.aiAnswer || '',
+        sources: item.sourceDocuments ? item.sourceDocuments.split(', ').map(title => ({ title })) : [],
+        citations: [],
+        processingTime: 0,
+        cached: false,
+        retrieval: null,
+        confidence: null,
+        verification: null,
+        answered: true,
+        complete: true,
+      })));
+    } catch (error) {
+      console.error('Failed to load conversation', error);
+    }
+  };
+
+  const startNewConversation = () => {
+    cancel();
+    setTurns([]);
+    setSessionId(crypto.randomUUID());
+    if (searchParams.has('session')) setSearchParams({});
+  };
+
+  useEffect(() => {
+    if (turns.length > 0) conversationCache.set(sessionId, turns);
+  }, [turns, sessionId]);
+
+  // /?session=<id> (linked from the history page) continues that conversation
+  useEffect(() => {
+    const session = searchParams.get('session');
+    if (session && session !== sessionId) {
+      loadConversation(session);
+    }
+  }, [searchParams]);
+
   const loadDocuments = async () => {
     setLoadingDocs(true);
     try {
@@ -154,7 +314,8 @@ export default function HomePage() {
       const docs = documentService.getAllDocuments();
       setLocalDocs(docs);
       
-      // Update indexed count
+      // Update indexed count once the persisted index has loaded
+      await aiService.whenReady();
       setIndexedCount(aiService.getIndexedCount());
     } catch (error) {
       console.error("Failed to load documents", error);
@@ -378,7 +539,9 @@ export default function HomePage() {
                                     </h3>
                                     <div className="flex items-center gap-2 text-sm text-primary/80">
                                         <div className="w-2 h-2 rounded-full bg-green-500" />
-                                        OpenAI Embeddings Active
+                                        {aiService.getEmbeddingModel() === LOCAL_EMBEDDING_MODEL
+                                            ? 'Local Embeddings Active (offline)'
+                                            : `${getProviderOption(aiService.getProviderConfig().provider).label} Embeddings Active`}
                                     </div>
                                 </div>
                             </div>
@@ -393,6 +556,148 @@ export default function HomePage() {
                             <div className="p-1 bg-gradient-to-r from-secondary via-primary to-secondary opacity-20" />
                             
                             <div className="p-8 md:p-12">
+                                {/* Conversation Thread */}
+                                {turns.length > 0 && (
+                                    <div className="mb-8">
+                                        <div className="flex items-center justify-between mb-6">
+                                            <h3 className="text-xs font-bold uppercase tracking-wider text-primary/50">
+                                                Conversation · {turns.length} {turns.length === 1 ? 'question' : 'questions'}
+                                            </h3>
+                                            <Button
+                                                type="button"
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={startNewConversation}
+                                                className="rounded-full text-primary/60 hover:text-primary"
+                                            >
+                                                <MessageSquarePlus className="w-4 h-4 mr-2" /> New conversation
+                                            </Button>
+                                        </div>
+
+                                        <AnimatePresence initial={false}>
+                                            {turns.map((turn) => (
+                                                <motion.div
+                                                    key={turn.id}
+                                                    initial={{ opacity: 0, height: 0 }}
+                                                    animate={{ opacity: 1, height: 'auto' }}
+                                                    exit={{ opacity: 0, height: 0 }}
+                                                    transition={{ duration: 0.5, ease: "circOut" }}
+                                                    className="overflow-hidden"
+                                                >
+                                                    <div className="pb-8 mb-8 border-b border-primary/5">
+                                                        {/* Question */}
+                                                        <div className="flex justify-end mb-6">
+                                                            <div className="max-w-[80%] bg-secondary/10 rounded-2xl rounded-br-sm px-5 py-3 text-primary/90">
+                                                                {turn.question}
+                                                                {turn.asOf && (
+                                                                    <span className="block text-xs text-primary/50 mt-1">
+                                                                        <Clock className="w-3 h-3 inline mr-1" />
+                                                                        as of {turn.asOf}
+                                                                    </span>
+                                                                )}
+                                                            </div>
+                                                        </div>
+
+                                                        {turn.answer && (
+                                                            <>
+                                                                <div className="flex items-start gap-4 mb-6">
+                                                                    <div className="w-10 h-10 rounded-full bg-gradient-to-br from-secondary to-primary flex items-center justify-center flex-shrink-0 shadow-lg">
+                                                                        <Bot className="w-6 h-6 text-white" />
+                                                                    </div>
+                                                                    <div className="space-y-4">
+                                                                        <h3 className="font-heading text-lg text-primary flex items-center gap-3">
+                                                                            AI Analysis
+                                                                            {turn.confidence && (
+                                                                                <Badge
+                                                                                    variant="outline"
+                                                                                    title={describeConfidence(turn.confidence)}
+                                                                                    className="border-primary/10 text-primary/60 font-normal"
+                                                                                >
+                                                                                    Confidence {Math.round(turn.confidence.score * 100)}%
+                                                                                </Badge>
+                                                                            )}
+                                                                        </h3>
+                                                                        <div className="prose prose-lg text-primary/80 leading-relaxed max-w-none">
+                                                                            <CitedAnswer
+                                                                                answer={turn.answer}
+                                                                                citations={turn.citations}
+                                                                                unsupported={turn.verification?.claims.filter(claim => !claim.supported)}
+                                                                            />
+                                                                        </div>
+                                                                        {turn.verification && turn.verification.claims.length > 0 && (
+                                                                            <p className="text-sm text-primary/50" title={turn.verification.verifyError}>
+                                                                                {describeVerification(turn.verification)}
+                                                                            </p>
+                                                                        )}
+                                                                        {!turn.answered && (
+                                                                            <p className="text-sm text-primary/50">
+                                                                                No document matched this question closely enough, so the AI model was not asked.
+                                                                                Try rephrasing it, or lower the answer threshold in Settings.
+                                                                            </p>
+                                                                        )}
+                                                                    </div>
+                                                                </div>
+
+                                                                {/* Sources */}
+                                                                {turn.sources.length > 0 && (
+                                                                    <div className="ml-14 bg-secondary/5 rounded-xl p-6 border border-secondary/10">
+                                                                        <div className="flex items-center justify-between mb-4">
+                                                                            <h4 className="text-xs font-bold uppercase tracking-wider text-primary/50 flex items-center gap-2">
+                                                                                <FileText className="w-3 h-3" /> Referenced Sources
+                                                                            </h4>
+                                                                            {(turn.processingTime > 0 || turn.cached) && (
+                                                                                <span className="text-xs text-primary/40 flex items-center gap-2">
+                                                                                    {turn.cached && (
+                                                                                        <Badge variant="secondary" className="bg-secondary/10 text-primary hover:bg-secondary/20 border-0">
+                                                                                            Cached
+                                                                                        </Badge>
+                                                                                    )}
+                                                                                    Processed in {turn.processingTime}ms
+                                                                                </span>
+                                                                            )}
+                                                                        </div>
+                                                                        <div className="flex flex-wrap gap-3">
+                                                                            {turn.sources.map((source, idx) => (
+                                                                                <motion.div
+                                                                                    key={idx}
+                                                                                    initial={{ opacity: 0, scale: 0.9 }}
+                                                                                    animate={{ opacity: 1, scale: 1 }}
+                                                                                    transition={{ delay: idx * 0.1 }}
+                                                                                >
+                                                                                    <Badge variant="outline" className="bg-white hover:bg-white border-primary/10 py-2 px-4 rounded-lg text-primary/70 flex items-center gap-2 cursor-pointer hover:border-primary/30 transition-colors">
+                                                                                        <div className="w-1.5 h-1.5 rounded-full bg-secondary" />
+                                                                                        {source.title}
+                                                                                        {source.sections && source.sections.length > 0 && (
+                                                                                            <span className="text-xs text-primary/50">
+                                                                                                {source.sections[0]}
+                                                                                            </span>
+                                                                                        )}
+                                                                                        {source.pageNumbers && source.pageNumbers.length > 0 && (
+                                                                                            <span className="text-xs text-primary/50">
+                                                                                                p. {source.pageNumbers.join(', ')}
+                                                                                            </span>
+                                                                                        )}
+                                                                                        {source.relevanceScore && (
+                                                                                            <span className="text-xs text-primary/40">
+                                                                                                {(source.relevanceScore * 100).toFixed(0)}%
+                                                                                            </span>
+                                                                                        )}
+                                                                                    </Badge>
+                                                                                </motion.div>
+                                                                            ))}
+                                                                        </div>
+                                                                        {turn.retrieval && <RetrievalDetails retrieval={turn.retrieval} />}
+                                                                    </div>
+                                                                )}
+                                                            </>
+                                                        )}
+                                                    </div>
+                                                </motion.div>
+                                            ))}
+                                        </AnimatePresence>
+                                    </div>
+                                )}
+
                                 <form onSubmit={handleSubmitQuery} className="relative">
                                     <label htmlFor="query-input" className="sr-only">Your Question</label>
                                     <div className="relative group">
@@ -400,92 +705,69 @@ export default function HomePage() {
                                             id="query-input"
                                             value={query}
                                             onChange={(e) => setQuery(e.target.value)}
-                                            placeholder="e.g., What are the deployment prerequisites for the new API?"
+                                            placeholder={turns.length > 0
+                                                ? 'Ask a follow-up question...'
+                                                : 'e.g., What are the deployment prerequisites for the new API?'}
                                             className="min-h-[160px] w-full resize-none bg-background border-2 border-primary/5 rounded-2xl p-6 text-lg md:text-xl focus:border-primary/20 focus:ring-0 transition-all placeholder:text-primary/30"
                                             disabled={isLoading}
                                         />
                                         <div className="absolute bottom-4 right-4">
-                                            <Button
-                                                type="submit"
-                                                disabled={isLoading || !query.trim()}
-                                                className={`rounded-full h-12 px-6 transition-all duration-300 ${isLoading ? 'w-40 bg-secondary' : 'w-auto bg-primary hover:bg-primary/90'}`}
-                                            >
-                                                {isLoading ? (
+                                            {isLoading ? (
+                                                <Button
+                                                    type="button"
+                                                    onClick={cancel}
+                                                    className="rounded-full h-12 px-6 w-40 bg-secondary transition-all duration-300"
+                                                >
                                                     <span className="flex items-center gap-2">
-                                                        <RefreshCw className="w-4 h-4 animate-spin" /> Processing
+                                                        <RefreshCw className="w-4 h-4 animate-spin" /> Stop
+                                                        <Square className="w-3 h-3 fill-current" />
                                                     </span>
-                                                ) : (
+                                                </Button>
+                                            ) : (
+                                                <Button
+                                                    type="submit"
+                                                    disabled={!query.trim()}
+                                                    className="rounded-full h-12 px-6 w-auto bg-primary hover:bg-primary/90 transition-all duration-300"
+                                                >
                                                     <span className="flex items-center gap-2">
                                                         Ask AI <ArrowRight className="w-4 h-4" />
                                                     </span>
-                                                )}
-                                            </Button>
+                                                </Button>
+                                            )}
                                         </div>
                                     </div>
                                 </form>
 
-                                {/* Answer Area - Animate Presence */}
-                                <AnimatePresence mode="wait">
-                                    {answer && (
-                                        <motion.div
-                                            initial={{ opacity: 0, height: 0 }}
-                                            animate={{ opacity: 1, height: 'auto' }}
-                                            exit={{ opacity: 0, height: 0 }}
-                                            transition={{ duration: 0.5, ease: "circOut" }}
-                                            className="mt-8 overflow-hidden"
-                                        >
-                                            <div className="pt-8 border-t border-primary/5">
-                                                <div className="flex items-start gap-4 mb-6">
-                                                    <div className="w-10 h-10 rounded-full bg-gradient-to-br from-secondary to-primary flex items-center justify-center flex-shrink-0 shadow-lg">
-                                                        <Bot className="w-6 h-6 text-white" />
-                                                    </div>
-                                                    <div className="space-y-4">
-                                                        <h3 className="font-heading text-lg text-primary">AI Analysis</h3>
-                                                        <div className="prose prose-lg text-primary/80 leading-relaxed max-w-none">
-                                                            {answer}
-                                                        </div>
-                                                    </div>
-                                                </div>
-
-                                                {/* Sources */}
-                                                {sources.length > 0 && (
-                                                    <div className="ml-14 bg-secondary/5 rounded-xl p-6 border border-secondary/10">
-                                                        <div className="flex items-center justify-between mb-4">
-                                                            <h4 className="text-xs font-bold uppercase tracking-wider text-primary/50 flex items-center gap-2">
-                                                                <FileText className="w-3 h-3" /> Referenced Sources
-                                                            </h4>
-                                                            {processingTime > 0 && (
-                                                                <span className="text-xs text-primary/40">
-                                                                    Processed in {processingTime}ms
-                                                                </span>
-                                                            )}
-                                                        </div>
-                                                        <div className="flex flex-wrap gap-3">
-                                                            {sources.map((source, idx) => (
-                                                                <motion.div
-                                                                    key={idx}
-                                                                    initial={{ opacity: 0, scale: 0.9 }}
-                                                                    animate={{ opacity: 1, scale: 1 }}
-                                                                    transition={{ delay: idx * 0.1 }}
-                                                                >
-                                                                    <Badge variant="outline" className="bg-white hover:bg-white border-primary/10 py-2 px-4 rounded-lg text-primary/70 flex items-center gap-2 cursor-pointer hover:border-primary/30 transition-colors">
-                                                                        <div className="w-1.5 h-1.5 rounded-full bg-secondary" />
-                                                                        {source.title}
-                                                                        {source.relevanceScore && (
-                                                                            <span className="text-xs text-primary/40">
-                                                                                {(source.relevanceScore * 100).toFixed(0)}%
-                                                                            </span>
-                                                                        )}
-                                                                    </Badge>
-                                                                </motion.div>
-                                                            ))}
-                                                        </div>
-                                                    </div>
-                                                )}
-                                            </div>
-                                        </motion.div>
+                                <div className="mt-4 flex flex-wrap items-center gap-3 text-sm text-primary/60">
+                                    <label htmlFor="as-of-input" className="flex items-center gap-2">
+                                        <Clock className="w-4 h-4" /> Answer from documents as of
+                                    </label>
+                                    <Input
+                                        id="as-of-input"
+                                        type="date"
+                                        value={asOf}
+                                        max={new Date().toISOString().slice(0, 10)}
+                                        onChange={(e) => setAsOf(e.target.value)}
+                                        disabled={isLoading}
+                                        className="h-9 w-auto rounded-lg border-primary/10"
+                                    />
+                                    {asOf ? (
+                                        <>
+                                            <button
+                                                type="button"
+                                                onClick={() => setAsOf('')}
+                                                className="text-primary/50 hover:text-primary underline underline-offset-2"
+                                            >
+                                                Use current versions
+                                            </button>
+                                            {/* Deleting a document drops its history too */}
+                                            <span className="text-primary/40">Documents deleted since then are not included</span>
+                                        </>
+                                    ) : (
+                                        <span className="text-primary/40">(current versions)</span>
                                     )}
-                                </AnimatePresence>
+                                </div>
+
                             </div>
                         </Card>
                     </AnimatedElement>
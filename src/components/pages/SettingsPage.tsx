@@ -9,7 +9,6 @@ import {
   Cpu,
   Zap,
   Database,
-  Trash2,
   CheckCircle,
   AlertCircle,
   Save,
@@ -22,57 +21,70 @@ import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { DataManagementPanel } from '@/components/ui/data-management-panel';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import { aiService } from '@/services/ai-service';
 import { documentService } from '@/services/document-service';
-
-interface SettingsData {
-  openaiApiKey: string;
-  modelName: string;
-  maxTokens: number;
-  temperature: number;
-  useLocalEmbeddings: boolean;
-  autoIndexDocuments: boolean;
-  enableCaching: boolean;
-  cacheExpiration: number;
-}
+import type { Settings as SettingsData, SettingsErrors } from '@/services/settings-service';
+import { useSettings } from '@/hooks/use-settings';
+import {
+  createCompletionProvider,
+  DEFAULT_AZURE_API_VERSION,
+  getProviderOption,
+  PROVIDER_OPTIONS,
+  type ProviderId,
+} from '@/services/llm-providers';
 
 export default function SettingsPage() {
-  const [settings, setSettings] = useState<SettingsData>({
-    openaiApiKey: '',
-    modelName: 'gpt-4o-mini',
-    maxTokens: 1000,
-    temperature: 0.7,
-    useLocalEmbeddings: false,
-    autoIndexDocuments: true,
-    enableCaching: true,
-    cacheExpiration: 60,
-  });
+  const { settings: savedSettings, updateSettings } = useSettings();
+  const [settings, setSettings] = useState<SettingsData>(savedSettings);
+  const [errors, setErrors] = useState<SettingsErrors>({});
   const [isSaved, setIsSaved] = useState(false);
   const [isValidating, setIsValidating] = useState(false);
   const [apiKeyValid, setApiKeyValid] = useState<boolean | null>(null);
 
-  // Load settings from localStorage
+  // Show the latest saved settings (including changes from other tabs)
   useEffect(() => {
-    const savedSettings = localStorage.getItem('docuquery_settings');
-    if (savedSettings) {
-      try {
-        setSettings(JSON.parse(savedSettings));
-      } catch (e) {
-        console.error('Failed to load settings:', e);
-      }
-    }
-  }, []);
+    setSettings(savedSettings);
+  }, [savedSettings]);
 
   const handleSave = () => {
-    localStorage.setItem('docuquery_settings', JSON.stringify(settings));
+    const result = updateSettings(settings);
+    if (!result.success) {
+      setErrors(result.errors);
+      return;
+    }
+    setErrors({});
     setIsSaved(true);
     setTimeout(() => setIsSaved(false), 3000);
   };
 
+  const providerOption = getProviderOption(settings.provider);
+
+  // Switching providers resets the provider-specific fields to that provider's defaults
+  const handleProviderChange = (provider: ProviderId) => {
+    setSettings({
+      ...settings,
+      provider,
+      baseUrl: '',
+      modelName: '',
+      embeddingModel: '',
+      apiVersion: '',
+    });
+    setApiKeyValid(null);
+  };
+
   const validateApiKey = async () => {
-    if (!settings.openaiApiKey) {
+    const provider = createCompletionProvider({
+      provider: settings.provider,
+      apiKey: settings.openaiApiKey,
+      baseUrl: settings.baseUrl || providerOption.defaultBaseUrl,
+      completionModel: settings.modelName || providerOption.defaultModel,
+      embeddingModel: settings.embeddingModel || providerOption.defaultEmbeddingModel,
+      apiVersion: settings.apiVersion || DEFAULT_AZURE_API_VERSION,
+    });
+    if (!provider) {
       setApiKeyValid(false);
       return;
     }
@@ -80,29 +92,12 @@ export default function SettingsPage() {
     setIsValidating(true);
     try {
       // Simple validation by attempting a minimal API call
-      const response = await fetch('https://api.openai.com/v1/models', {
-        headers: {
-          'Authorization': `Bearer ${settings.openaiApiKey}`,
-        },
-      });
-      setApiKeyValid(response.ok);
-    } catch {
-      setApiKeyValid(false);
+      setApiKeyValid(await provider.checkConnection());
     } finally {
       setIsValidating(false);
     }
   };
 
-  const clearAllData = () => {
-    if (confirm('Are you sure you want to clear all data? This action cannot be undone.')) {
-      localStorage.removeItem('docuquery_documents');
-      localStorage.removeItem('docuquery_vectors');
-      localStorage.removeItem('docuquery_query_history');
-      localStorage.removeItem('docuquery_settings');
-      window.location.reload();
-    }
-  };
-
   const docStats = documentService.getStats();
 
   return (
@@ -134,17 +129,56 @@ export default function SettingsPage() {
                 </div>
                 <div>
                   <h2 className="font-heading text-xl text-primary">API Configuration</h2>
-                  <p className="text-sm text-primary/60">Connect to OpenAI for intelligent responses</p>
+                  <p className="text-sm text-primary/60">Connect to an AI provider for intelligent responses</p>
                 </div>
               </div>
 
               <div className="space-y-6">
                 <div>
-                  <Label className="text-sm text-primary/70 mb-2 block">OpenAI API Key</Label>
+                  <Label className="text-sm text-primary/70 mb-2 block">Provider</Label>
+                  <select
+                    title="Select AI Provider"
+                    aria-label="Select AI Provider"
+                    value={settings.provider}
+                    onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+                    className="w-full h-12 rounded-xl border border-primary/10 px-4 bg-white"
+                  >
+                    {PROVIDER_OPTIONS.map(option => (
+                      <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                  </select>
+                  {!providerOption.supportsEmbeddings && (
+                    <p className="text-xs text-primary/50 mt-2">
+                      {providerOption.label} has no embeddings API; documents are indexed with local embeddings.
+                    </p>
+                  )}
+                </div>
+
+                {settings.provider !== 'openai' && (
+                  <div>
+                    <Label className="text-sm text-primary/70 mb-2 block">
+                      {settings.provider === 'azure' ? 'Resource Endpoint' : 'Base URL'}
+                    </Label>
+                    <Input
+                      placeholder={providerOption.defaultBaseUrl}
+                      value={settings.baseUrl}
+                      onChange={(e) => setSettings({ ...settings, baseUrl: e.target.value })}
+                      className="h-12 rounded-xl border-primary/10"
+                    />
+                    {errors.baseUrl && (
+                      <p className="text-sm mt-2 text-red-600">{errors.baseUrl}</p>
+                    )}
+                  </div>
+                )}
+
+                <div>
+                  <Label className="text-sm text-primary/70 mb-2 block">
+                    API Key{providerOption.requiresApiKey ? '' : ' (optional)'}
+                  </Label>
                   <div className="flex gap-3">
                     <Input
                       type="password"
-                      placeholder="sk-..."
+                      placeholder={settings.provider === 'openai' ? 'sk-...' : 'API key'}
                       value={settings.openaiApiKey}
                       onChange={(e) => setSettings({ ...settings, openaiApiKey: e.target.value })}
                       className="flex-1 h-12 rounded-xl border-primary/10"
@@ -172,7 +206,7 @@ export default function SettingsPage() {
                       ) : (
                         <>
                           <AlertCircle className="w-4 h-4" />
-                          Invalid API key
+                          Could not connect with these settings
                         </>
                       )}
                     </p>
@@ -181,18 +215,29 @@ export default function SettingsPage() {
 
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <Label className="text-sm text-primary/70 mb-2 block">Model</Label>
-                    <select
-                      title="Select AI Model"
-                      aria-label="Select AI Model"
-                      value={settings.modelName}
-                      onChange={(e) => setSettings({ ...settings, modelName: e.target.value })}
-                      className="w-full h-12 rounded-xl border border-primary/10 px-4 bg-white"
-                    >
-                      <option value="gpt-4o-mini">GPT-4o Mini (Fast)</option>
-                      <option value="gpt-4o">GPT-4o (Balanced)</option>
-                      <option value="gpt-4-turbo">GPT-4 Turbo (Powerful)</option>
-                    </select>
+                    <Label className="text-sm text-primary/70 mb-2 block">
+                      {settings.provider === 'azure' ? 'Chat Deployment' : 'Model'}
+                    </Label>
+                    {settings.provider === 'openai' ? (
+                      <select
+                        title="Select AI Model"
+                        aria-label="Select AI Model"
+                        value={settings.modelName || providerOption.defaultModel}
+                        onChange={(e) => setSettings({ ...settings, modelName: e.target.value })}
+                        className="w-full h-12 rounded-xl border border-primary/10 px-4 bg-white"
+                      >
+                        <option value="gpt-4o-mini">GPT-4o Mini (Fast)</option>
+                        <option value="gpt-4o">GPT-4o (Balanced)</option>
+                        <option value="gpt-4-turbo">GPT-4 Turbo (Powerful)</option>
+                      </select>
+                    ) : (
+                      <Input
+                        placeholder={providerOption.defaultModel}
+                        value={settings.modelName}
+                        onChange={(e) => setSettings({ ...settings, modelName: e.target.value })}
+                        className="h-12 rounded-xl border-primary/10"
+                      />
+                    )}
                   </div>
                   <div>
                     <Label className="text-sm text-primary/70 mb-2 block">Max Tokens</Label>
@@ -202,9 +247,39 @@ export default function SettingsPage() {
                       onChange={(e) => setSettings({ ...settings, maxTokens: parseInt(e.target.value) })}
                       className="h-12 rounded-xl border-primary/10"
                     />
+                    {errors.maxTokens && (
+                      <p className="text-sm mt-2 text-red-600">{errors.maxTokens}</p>
+                    )}
                   </div>
                 </div>
 
+                {providerOption.supportsEmbeddings && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label className="text-sm text-primary/70 mb-2 block">
+                        {settings.provider === 'azure' ? 'Embedding Deployment' : 'Embedding Model'}
+                      </Label>
+                      <Input
+                        placeholder={providerOption.defaultEmbeddingModel}
+                        value={settings.embeddingModel}
+                        onChange={(e) => setSettings({ ...settings, embeddingModel: e.target.value })}
+                        className="h-12 rounded-xl border-primary/10"
+                      />
+                    </div>
+                    {settings.provider === 'azure' && (
+                      <div>
+                        <Label className="text-sm text-primary/70 mb-2 block">API Version</Label>
+                        <Input
+                          placeholder={DEFAULT_AZURE_API_VERSION}
+                          value={settings.apiVersion}
+                          onChange={(e) => setSettings({ ...settings, apiVersion: e.target.value })}
+                          className="h-12 rounded-xl border-primary/10"
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 <div>
                   <Label className="text-sm text-primary/70 mb-2 block">
                     Temperature: {settings.temperature}
@@ -212,9 +287,9 @@ export default function SettingsPage() {
                   <input
                     type="range"
                     min="0"
-                    max="1"
+                    max="2"
                     step="0.1"
-                    title="Temperature (0 = Precise, 1 = Creative)"
+                    title="Temperature (0 = Precise, 2 = Creative)"
                     aria-label="Temperature setting"
                     value={settings.temperature}
                     onChange={(e) => setSettings({ ...settings, temperature: parseFloat(e.target.value) })}
@@ -250,7 +325,7 @@ export default function SettingsPage() {
                 <div className="flex items-center justify-between">
                   <div>
                     <Label className="text-primary">Use Local Embeddings</Label>
-                    <p className="text-sm text-primary/60">Generate embeddings without API calls (less accurate)</p>
+                    <p className="text-sm text-primary/60">Hashed term-frequency embeddings computed in the browser; works offline (re-indexes documents)</p>
                   </div>
                   <Switch
                     checked={settings.useLocalEmbeddings}
@@ -258,6 +333,154 @@ export default function SettingsPage() {
                   />
                 </div>
 
+                <div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <Label className="text-sm text-primary/70 mb-2 block">Chunk Size (tokens)</Label>
+                      <Input
+                        type="number"
+                        value={settings.chunkSize}
+                        onChange={(e) => setSettings({ ...settings, chunkSize: parseInt(e.target.value) })}
+                        className="h-12 rounded-xl border-primary/10"
+                      />
+                      {errors.chunkSize && (
+                        <p className="text-sm mt-2 text-red-600">{errors.chunkSize}</p>
+                      )}
+                    </div>
+                    <div>
+                      <Label className="text-sm text-primary/70 mb-2 block">Chunk Overlap (tokens)</Label>
+                      <Input
+                        type="number"
+                        value={settings.chunkOverlap}
+                        onChange={(e) => setSettings({ ...settings, chunkOverlap: parseInt(e.target.value) })}
+                        className="h-12 rounded-xl border-primary/10"
+                      />
+                      {errors.chunkOverlap && (
+                        <p className="text-sm mt-2 text-red-600">{errors.chunkOverlap}</p>
+                      )}
+                    </div>
+                  </div>
+                  <p className="text-sm text-primary/60 mt-2">
+                    Applies to documents indexed from now on; clear the Search Index under Data Management to re-chunk existing ones
+                  </p>
+                </div>
+
+                <div>
+                  <Label className="text-sm text-primary/70 mb-2 block">
+                    Search Blend: {Math.round(settings.hybridWeight * 100)}% semantic / {Math.round((1 - settings.hybridWeight) * 100)}% keyword
+                  </Label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.1"
+                    title="Search blend (0 = Exact keywords, 1 = Semantic meaning)"
+                    aria-label="Search blend setting"
+                    value={settings.hybridWeight}
+                    onChange={(e) => setSettings({ ...settings, hybridWeight: parseFloat(e.target.value) })}
+                    className="w-full accent-primary"
+                  />
+                  <div className="flex justify-between text-xs text-primary/50 mt-1">
+                    <span>Exact keywords (BM25)</span>
+                    <span>Semantic meaning</span>
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label className="text-primary">Re-rank Results</Label>
+                    <p className="text-sm text-primary/60">Re-score extra candidates with the AI model (or a local scorer without one) and prefer varied chunks</p>
+                  </div>
+                  <Switch
+                    checked={settings.enableReranking}
+                    onCheckedChange={(checked) => setSettings({ ...settings, enableReranking: checked })}
+                  />
+                </div>
+
+                {settings.enableReranking && (
+                  <>
+                    <div>
+                      <Label className="text-sm text-primary/70 mb-2 block">Candidates to Re-rank</Label>
+                      <Input
+                        type="number"
+                        value={settings.rerankCandidates}
+                        onChange={(e) => setSettings({ ...settings, rerankCandidates: parseInt(e.target.value) })}
+                        className="h-12 rounded-xl border-primary/10 max-w-xs"
+                      />
+                      {errors.rerankCandidates && (
+                        <p className="text-sm mt-2 text-red-600">{errors.rerankCandidates}</p>
+                      )}
+                    </div>
+
+                    <div>
+                      <Label className="text-sm text-primary/70 mb-2 block">
+                        Diversity: {Math.round(settings.rerankDiversity * 100)}%
+                      </Label>
+                      <input
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.1"
+                        title="Diversity (0 = Most relevant only, 1 = Most varied)"
+                        aria-label="Re-ranking diversity setting"
+                        value={settings.rerankDiversity}
+                        onChange={(e) => setSettings({ ...settings, rerankDiversity: parseFloat(e.target.value) })}
+                        className="w-full accent-primary"
+                      />
+                      <div className="flex justify-between text-xs text-primary/50 mt-1">
+                        <span>Most relevant only</span>
+                        <span>Most varied</span>
+                      </div>
+                    </div>
+                  </>
+                )}
+
+                <div>
+                  <Label className="text-sm text-primary/70 mb-2 block">
+                    Answer Threshold: {Math.round(settings.answerThreshold * 100)}% confidence
+                  </Label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    title="Answer threshold (0 = Always ask the AI model)"
+                    aria-label="Answer threshold setting"
+                    value={settings.answerThreshold}
+                    onChange={(e) => setSettings({ ...settings, answerThreshold: parseFloat(e.target.value) })}
+                    className="w-full accent-primary"
+                  />
+                  <div className="flex justify-between text-xs text-primary/50 mt-1">
+                    <span>Always answer</span>
+                    <span>Only well-covered questions</span>
+                  </div>
+                  <p className="text-sm text-primary/60 mt-2">
+                    Below this, questions get "not available in the current documentation" without calling the AI model
+                  </p>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label className="text-primary">Verify Answers</Label>
+                    <p className="text-sm text-primary/60">Check each statement of an answer against the retrieved documents (with the AI model, or by word overlap without one) and mark unsupported ones</p>
+                  </div>
+                  <Switch
+                    checked={settings.verifyAnswers}
+                    onCheckedChange={(checked) => setSettings({ ...settings, verifyAnswers: checked })}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label className="text-primary">Rate Groundedness</Label>
+                    <p className="text-sm text-primary/60">Ask the AI model how well each answer is supported for its confidence score (one extra request per answer; otherwise word overlap is used)</p>
+                  </div>
+                  <Switch
+                    checked={settings.checkGroundedness}
+                    onCheckedChange={(checked) => setSettings({ ...settings, checkGroundedness: checked })}
+                  />
+                </div>
+
                 <div className="flex items-center justify-between">
                   <div>
                     <Label className="text-primary">Auto-Index Documents</Label>
@@ -310,6 +533,9 @@ export default function SettingsPage() {
                       onChange={(e) => setSettings({ ...settings, cacheExpiration: parseInt(e.target.value) })}
                       className="h-12 rounded-xl border-primary/10 max-w-xs"
                     />
+                    {errors.cacheExpiration && (
+                      <p className="text-sm mt-2 text-red-600">{errors.cacheExpiration}</p>
+                    )}
                   </div>
                 )}
               </div>
@@ -329,7 +555,7 @@ export default function SettingsPage() {
                 </div>
                 <div>
                   <h2 className="font-heading text-xl text-primary">Data Management</h2>
-                  <p className="text-sm text-primary/60">Manage stored data and cache</p>
+                  <p className="text-sm text-primary/60">Review and clear what this browser stores</p>
                 </div>
               </div>
 
@@ -352,22 +578,7 @@ export default function SettingsPage() {
                 </div>
               </div>
 
-              <div className="flex items-center gap-3 p-4 bg-red-50 rounded-xl">
-                <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
-                <div className="flex-1">
-                  <p className="text-sm text-red-700">
-                    Clearing data will remove all documents, embeddings, and query history. This action cannot be undone.
-                  </p>
-                </div>
-                <Button
-                  variant="destructive"
-                  onClick={clearAllData}
-                  className="rounded-xl"
-                >
-                  <Trash2 className="w-4 h-4 mr-2" />
-                  Clear All
-                </Button>
-              </div>
+              <DataManagementPanel />
             </Card>
           </motion.div>
 
@@ -376,8 +587,14 @@ export default function SettingsPage() {
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.5 }}
-            className="flex justify-end gap-4"
+            className="flex justify-end items-center gap-4"
           >
+            {Object.keys(errors).length > 0 && (
+              <p className="text-sm text-red-600 flex items-center gap-1">
+                <AlertCircle className="w-4 h-4" />
+                Fix the highlighted settings before saving
+              </p>
+            )}
             <Button
               onClick={handleSave}
               disabled={isSaved}
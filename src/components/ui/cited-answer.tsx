@@ -0,0 +1,86 @@
+/**
+ * Cited Answer
+ * Answer text with its inline citations ([1], [2]) linked to the cited passage in the document preview,
+ * and sentences that failed verification marked
+ */
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { splitCitations, type Citation } from '@/services/citations';
+
+interface CitedAnswerProps {
+  answer: string;
+  citations: Citation[];
+  // Character ranges of claims the documentation does not support
+  unsupported?: { start: number; end: number }[];
+}
+
+/**
+ * Documents page URL that opens a document's preview at the cited passage
+ */
+export function getCitationHref(citation: Citation): string {
+  const params = new URLSearchParams({
+    doc: citation.documentId,
+    start: String(citation.startOffset),
+    end: String(citation.endOffset),
+  });
+  return `/documents?${params}`;
+}
+
+function describeCitation(citation: Citation): string {
+  return [citation.title, citation.section, citation.pageNumber && `page ${citation.pageNumber}`]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+export const CitedAnswer: React.FC<CitedAnswerProps> = ({ answer, citations, unsupported = [] }) => {
+  const byNumber = new Map(citations.map(citation => [citation.number, citation]));
+
+  // Citations are found in the whole answer so code spans split across segments are still skipped
+  const renderText = (start: number, end: number) =>
+    splitCitations(answer, start, end).map((part, idx) => {
+      if (typeof part === 'string') return <React.Fragment key={idx}>{part}</React.Fragment>;
+
+      const citation = byNumber.get(part);
+      if (!citation) return <React.Fragment key={idx}>[{part}]</React.Fragment>;
+      return (
+        <Link
+          key={idx}
+          to={getCitationHref(citation)}
+          title={describeCitation(citation)}
+          className="inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 mx-0.5 align-super text-[0.65rem] font-semibold rounded bg-secondary/15 text-primary no-underline hover:bg-secondary/30 transition-colors"
+        >
+          {part}
+        </Link>
+      );
+    });
+
+  // Alternate plain and unsupported stretches of the answer
+  const segments: { start: number; end: number; supported: boolean }[] = [];
+  let position = 0;
+  [...unsupported].sort((a, b) => a.start - b.start).forEach(({ start, end }) => {
+    if (start > position) segments.push({ start: position, end: start, supported: true });
+    if (end > Math.max(start, position)) {
+      segments.push({ start: Math.max(start, position), end, supported: false });
+    }
+    position = Math.max(position, end);
+  });
+  if (position < answer.length) segments.push({ start: position, end: answer.length, supported: true });
+
+  return (
+    <>
+      {segments.map((segment, idx) =>
+        segment.supported ? (
+          <React.Fragment key={idx}>{renderText(segment.start, segment.end)}</React.Fragment>
+        ) : (
+          <span
+            key={idx}
+            title="Not supported by the retrieved documentation"
+            className="underline decoration-wavy decoration-amber-500/70 underline-offset-4 bg-amber-50"
+          >
+            {renderText(segment.start, segment.end)}
+          </span>
+        )
+      )}
+    </>
+  );
+};
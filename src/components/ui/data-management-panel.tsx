@@ -0,0 +1,148 @@
+/**
+ * Data Management Panel
+ * Lists every storage namespace with its size and lets the user wipe them selectively
+ */
+import React, { useState, useEffect, useCallback } from 'react';
+import { AlertCircle, Loader2, Trash2 } from 'lucide-react';
+import { Button } from './button';
+import { documentService } from '@/services/document-service';
+import {
+  STORAGE_NAMESPACES,
+  clearAllNamespaces,
+  clearNamespace,
+  getOriginStorageEstimate,
+  getStorageUsage,
+  type NamespaceUsage,
+  type StorageNamespace,
+  type StorageNamespaceId,
+} from '@/services/data-management-service';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+export const DataManagementPanel: React.FC = () => {
+  const [usage, setUsage] = useState<Partial<Record<StorageNamespaceId, NamespaceUsage>>>({});
+  const [originUsage, setOriginUsage] = useState<{ usage: number; quota: number } | null>(null);
+  const [clearing, setClearing] = useState<StorageNamespaceId | 'all' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    const [namespaces, estimate] = await Promise.all([getStorageUsage(), getOriginStorageEstimate()]);
+    setUsage(Object.fromEntries(namespaces.map(entry => [entry.id, entry])));
+    setOriginUsage(estimate);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return documentService.onUpdate(() => {
+      refresh();
+    });
+  }, [refresh]);
+
+  const runClear = async (target: StorageNamespaceId | 'all', requiresReload: boolean) => {
+    setClearing(target);
+    setError(null);
+    try {
+      if (target === 'all') {
+        await clearAllNamespaces();
+      } else {
+        await clearNamespace(target);
+      }
+      if (requiresReload) {
+        window.location.reload();
+        return;
+      }
+      await refresh();
+    } catch (err) {
+      console.error('Error clearing data:', err);
+      setError(err instanceof Error ? err.message : 'Failed to clear data');
+    } finally {
+      setClearing(null);
+    }
+  };
+
+  const handleClear = (namespace: StorageNamespace) => {
+    if (!confirm(`Clear ${namespace.label.toLowerCase()}? This action cannot be undone.`)) return;
+    runClear(namespace.id, namespace.requiresReload);
+  };
+
+  const handleClearAll = () => {
+    if (!confirm('Are you sure you want to clear all data? This action cannot be undone.')) return;
+    runClear('all', true);
+  };
+
+  const totalBytes = Object.values(usage).reduce((sum, entry) => sum + (entry?.bytes || 0), 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="divide-y divide-primary/10 rounded-2xl border border-primary/10">
+        {STORAGE_NAMESPACES.map(namespace => {
+          const entry = usage[namespace.id];
+          return (
+            <div key={namespace.id} className="flex items-center gap-4 p-4">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-primary">{namespace.label}</p>
+                <p className="text-sm text-primary/60">{namespace.description}</p>
+                <p className="text-xs text-primary/40 mt-1 truncate">
+                  {[...namespace.localStorageKeys, ...namespace.indexedDBStores.map(store => `IndexedDB: ${store}`)].join(', ')}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="text-sm font-medium text-primary">{entry ? formatBytes(entry.bytes) : '—'}</p>
+                <p className="text-xs text-primary/60">{entry ? `${entry.entries} entries` : ''}</p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleClear(namespace)}
+                disabled={clearing !== null}
+                className="rounded-xl"
+              >
+                {clearing === namespace.id ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Trash2 className="w-4 h-4" />
+                )}
+                <span className="ml-2">Clear</span>
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-sm text-primary/60">
+        App data: {formatBytes(totalBytes)}
+        {originUsage && ` · Browser storage used by this site: ${formatBytes(originUsage.usage)} of ${formatBytes(originUsage.quota)}`}
+      </p>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex items-center gap-3 p-4 bg-red-50 rounded-xl">
+        <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+        <div className="flex-1">
+          <p className="text-sm text-red-700">
+            Clearing all data removes every namespace above, including your settings and member session. This action cannot be undone.
+          </p>
+        </div>
+        <Button
+          variant="destructive"
+          onClick={handleClearAll}
+          disabled={clearing !== null}
+          className="rounded-xl"
+        >
+          {clearing === 'all' ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Trash2 className="w-4 h-4 mr-2" />
+          )}
+          Clear All
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default DataManagementPanel;
@@ -15,6 +15,18 @@ interface DocumentUploadProps {
   acceptedTypes?: string[];
 }
 
+interface UploadQueueItem {
+  id: string;
+  file: File;
+  status: 'pending' | 'uploading' | 'success' | 'error';
+  progress: number;
+  // Set once the document service reports progress for the upload
+  documentId?: string;
+  // Current processing step reported by the document service
+  stage?: string;
+  error?: string;
+}
+
 export const DocumentUpload: React.FC<DocumentUploadProps> = ({
   onUploadComplete,
   onError,
@@ -22,12 +34,7 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({
   acceptedTypes = ['.txt', '.md', '.pdf', '.docx', '.json', '.csv'],
 }) => {
   const [isDragging, setIsDragging] = useState(false);
-  const [uploadQueue, setUploadQueue] = useState<{
-    file: File;
-    status: 'pending' | 'uploading' | 'success' | 'error';
-    progress: number;
-    error?: string;
-  }[]>([]);
+  const [uploadQueue, setUploadQueue] = useState<UploadQueueItem[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -55,74 +62,45 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({
   };
 
   const processFiles = async (files: FileList | File[]) => {
-    const fileArray = Array.from(files);
-    
-    const newQueue = fileArray.map(file => ({
+    const newQueue: UploadQueueItem[] = Array.from(files).map(file => ({
+      id: crypto.randomUUID(),
       file,
-      status: 'pending' as const,
+      status: 'pending',
       progress: 0,
     }));
 
     setUploadQueue(prev => [...prev, ...newQueue]);
 
-    for (let i = 0; i < fileArray.length; i++) {
-      const file = fileArray[i];
-      const queueIndex = uploadQueue.length + i;
+    const updateItem = (id: string, changes: Partial<UploadQueueItem>) => {
+      setUploadQueue(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+    };
 
+    // Files are processed one at a time by the document service's background queue
+    await Promise.all(newQueue.map(async ({ id, file }) => {
       // Validate file
       const error = validateFile(file);
       if (error) {
-        setUploadQueue(prev => 
-          prev.map((item, idx) => 
-            idx === queueIndex ? { ...item, status: 'error', error } : item
-          )
-        );
+        updateItem(id, { status: 'error', error });
         onError?.(error);
-        continue;
+        return;
       }
 
-      // Update status to uploading
-      setUploadQueue(prev =>
-        prev.map((item, idx) =>
-          idx === queueIndex ? { ...item, status: 'uploading', progress: 10 } : item
-        )
-      );
+      updateItem(id, { status: 'uploading', progress: 0, stage: 'Queued' });
 
       try {
-        // Simulate progress
-        const progressInterval = setInterval(() => {
-          setUploadQueue(prev =>
-            prev.map((item, idx) =>
-              idx === queueIndex && item.progress < 90
-                ? { ...item, progress: item.progress + 10 }
-                : item
-            )
-          );
-        }, 200);
-
-        // Upload the file
-        const document = await documentService.uploadFile(file);
-
-        clearInterval(progressInterval);
-
-        // Update status to success
-        setUploadQueue(prev =>
-          prev.map((item, idx) =>
-            idx === queueIndex ? { ...item, status: 'success', progress: 100 } : item
-          )
-        );
+        // Upload the file, following the real processing stages
+        const document = await documentService.uploadFile(file, ({ documentId, progress, status }) => {
+          updateItem(id, { documentId, progress, stage: status });
+        });
 
+        updateItem(id, { status: 'success', progress: 100 });
         onUploadComplete?.(document);
       } catch (err) {
         const errorMsg = err instanceof Error ? err.message : 'Upload failed';
-        setUploadQueue(prev =>
-          prev.map((item, idx) =>
-            idx === queueIndex ? { ...item, status: 'error', error: errorMsg } : item
-          )
-        );
+        updateItem(id, { status: 'error', error: errorMsg });
         onError?.(errorMsg);
       }
-    }
+    }));
   };
 
   const handleDrop = useCallback((e: React.DragEvent) => {
@@ -146,8 +124,14 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({
     }
   };
 
-  const removeFromQueue = (index: number) => {
-    setUploadQueue(prev => prev.filter((_, idx) => idx !== index));
+  const removeFromQueue = (item: UploadQueueItem) => {
+    // Removing an upload in progress cancels it
+    if (item.status === 'uploading' && item.documentId) {
+      documentService.cancelIndexing(item.documentId).catch(error => {
+        console.error('Error cancelling upload:', error);
+      });
+    }
+    setUploadQueue(prev => prev.filter(queued => queued.id !== item.id));
   };
 
   const clearCompleted = () => {
@@ -235,9 +219,9 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({
           </div>
 
           <div className="space-y-3">
-            {uploadQueue.map((item, index) => (
+            {uploadQueue.map(item => (
               <div
-                key={index}
+                key={item.id}
                 className="flex items-center gap-3 p-3 bg-background rounded-xl"
               >
                 <div className={`
@@ -265,6 +249,10 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({
                     <p className="text-xs text-red-600">{item.error}</p>
                   ) : item.status === 'uploading' ? (
                     <div className="mt-1">
+                      <div className="flex justify-between text-xs text-primary/60 mb-1">
+                        <span className="truncate">{item.stage || 'Starting'}</span>
+                        <span>{item.progress}%</span>
+                      </div>
                       <div className="h-1.5 bg-primary/10 rounded-full overflow-hidden">
                         <div
                           className="h-full bg-primary transition-all duration-300"
@@ -282,7 +270,7 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => removeFromQueue(index)}
+                  onClick={() => removeFromQueue(item)}
                   className="w-8 h-8 p-0"
                 >
                   <X className="w-4 h-4" />
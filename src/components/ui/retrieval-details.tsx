@@ -0,0 +1,65 @@
+/**
+ * Retrieval Details
+ * Collapsible debug view of the candidate chunks behind an answer and how each was scored
+ */
+import React from 'react';
+import type { RetrievalDebug } from '@/services/ai-service';
+
+interface RetrievalDetailsProps {
+  retrieval: RetrievalDebug;
+}
+
+function formatScore(score: number | undefined, digits = 3): string {
+  return score === undefined ? '—' : score.toFixed(digits);
+}
+
+export const RetrievalDetails: React.FC<RetrievalDetailsProps> = ({ retrieval }) => {
+  if (retrieval.candidates.length === 0) return null;
+
+  return (
+    <details className="mt-4 text-xs text-primary/60">
+      <summary className="cursor-pointer select-none text-primary/50 hover:text-primary/70">
+        Retrieval details
+        {' · '}
+        {retrieval.reranker
+          ? `re-ranked by ${retrieval.reranker}, diversity ${Math.round(retrieval.diversity * 100)}%`
+          : 'fused ranking (re-ranking off)'}
+      </summary>
+
+      {retrieval.rerankError && (
+        <p className="mt-2 text-amber-700">Preferred re-ranker failed: {retrieval.rerankError}</p>
+      )}
+
+      <div className="mt-3 overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="text-primary/40">
+            <tr>
+              <th className="py-1 pr-3 font-medium">Pick</th>
+              <th className="py-1 pr-3 font-medium">Chunk</th>
+              <th className="py-1 pr-3 font-medium">Fused</th>
+              <th className="py-1 pr-3 font-medium">Similarity</th>
+              <th className="py-1 pr-3 font-medium">Re-rank</th>
+            </tr>
+          </thead>
+          <tbody>
+            {retrieval.candidates.map(candidate => (
+              <tr
+                key={candidate.chunkId}
+                className={candidate.selectedRank ? 'text-primary/80' : 'text-primary/40'}
+              >
+                <td className="py-1 pr-3">{candidate.selectedRank ?? ''}</td>
+                <td className="py-1 pr-3">
+                  {candidate.title}
+                  <span className="text-primary/40"> #{candidate.chunkId.split('-chunk-').pop()}</span>
+                </td>
+                <td className="py-1 pr-3">{formatScore(candidate.fusedScore, 4)}</td>
+                <td className="py-1 pr-3">{formatScore(candidate.similarity)}</td>
+                <td className="py-1 pr-3">{formatScore(candidate.rerankScore, 2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,45 @@
+/**
+ * Version Diff
+ * Line diff between two versions of a document, with removed lines in red and added lines in green
+ */
+import React, { useMemo } from 'react';
+import { diffLines } from '@/lib/line-diff';
+
+interface VersionDiffProps {
+  oldText: string;
+  newText: string;
+}
+
+const LINE_STYLES = {
+  unchanged: 'text-primary/60',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800 line-through decoration-red-300',
+};
+
+const LINE_MARKERS = { unchanged: ' ', added: '+', removed: '-' };
+
+export const VersionDiff: React.FC<VersionDiffProps> = ({ oldText, newText }) => {
+  const lines = useMemo(() => diffLines(oldText, newText), [oldText, newText]);
+  const added = lines.filter(line => line.type === 'added').length;
+  const removed = lines.filter(line => line.type === 'removed').length;
+
+  return (
+    <div>
+      <p className="text-xs text-primary/50 mb-3">
+        <span className="text-green-700">+{added}</span>{' '}
+        <span className="text-red-700">-{removed}</span> lines
+      </p>
+      <div className="font-mono text-sm bg-primary/5 rounded-xl py-2 overflow-x-auto">
+        {lines.map((line, idx) => (
+          <div key={idx} className={`flex gap-3 px-4 whitespace-pre-wrap ${LINE_STYLES[line.type]}`}>
+            <span className="w-10 flex-shrink-0 text-right text-primary/30 select-none">
+              {line.newLine ?? line.oldLine}
+            </span>
+            <span className="select-none">{LINE_MARKERS[line.type]}</span>
+            <span className="flex-1">{line.text || ' '}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
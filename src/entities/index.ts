@@ -44,4 +44,6 @@ export interface QueryHistory {
   sourceDocuments?: string;
   /** @wixFieldType number */
   feedbackRating?: number;
+  /** @wixFieldType text */
+  sessionId?: string;
 }
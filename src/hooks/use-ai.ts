@@ -1,17 +1,33 @@
 /**
  * useAI Hook - React hook for AI queries
  */
-import { useState, useCallback } from 'react';
-import { aiService, type AIQueryResponse, type DocumentSource } from '@/services/ai-service';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { aiService, type AIQueryResponse, type ConversationTurn, type DocumentSource } from '@/services/ai-service';
+import { documentService } from '@/services/document-service';
+import type { Citation } from '@/services/citations';
+
+export interface StreamQueryHandlers {
+  // Also receives the numbered passages the answer may cite
+  onSources?: (sources: DocumentSource[], citations: Citation[]) => void;
+  onToken?: (token: string, answer: string) => void;
+}
 
 export interface UseAIReturn {
   query: (userQuery: string) => Promise<AIQueryResponse>;
+  streamQuery: (
+    userQuery: string,
+    handlers?: StreamQueryHandlers,
+    history?: ConversationTurn[],
+    asOf?: Date
+  ) => Promise<AIQueryResponse | null>;
+  cancel: () => void;
   isLoading: boolean;
+  isStreaming: boolean;
   error: string | null;
   lastResponse: AIQueryResponse | null;
   indexDocument: (doc: { id: string; title: string; content: string; fileType: string }) => Promise<void>;
-  removeDocument: (documentId: string) => void;
-  clearIndex: () => void;
+  removeDocument: (documentId: string) => Promise<void>;
+  clearIndex: () => Promise<void>;
   indexedCount: number;
 }
 
@@ -20,6 +36,13 @@ export function useAI(): UseAIReturn {
   const [error, setError] = useState<string | null>(null);
   const [lastResponse, setLastResponse] = useState<AIQueryResponse | null>(null);
   const [indexedCount, setIndexedCount] = useState(aiService.getIndexedCount());
+  const [isStreaming, setIsStreaming] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // The persisted index loads asynchronously
+  useEffect(() => {
+    aiService.whenReady().then(() => setIndexedCount(aiService.getIndexedCount()));
+  }, []);
 
   const query = useCallback(async (userQuery: string): Promise<AIQueryResponse> => {
     setIsLoading(true);
@@ -37,6 +60,89 @@ export function useAI(): UseAIReturn {
     }
   }, []);
 
+  /**
+   * Stream an answer, reporting sources and tokens as they arrive. Pass the earlier turns
+   * of a conversation to answer follow-up questions, and a date to answer from the documents
+   * as they were then. Resolves with the full response (its answer with invalid citations
+   * removed), or null if the stream was cancelled.
+   */
+  const streamQuery = useCallback(async (
+    userQuery: string,
+    handlers: StreamQueryHandlers = {},
+    history: ConversationTurn[] = [],
+    asOf?: Date
+  ): Promise<AIQueryResponse | null> => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setIsLoading(true);
+    setIsStreaming(true);
+    setError(null);
+
+    const response: AIQueryResponse = {
+      answer: '',
+      sources: [],
+      citations: [],
+      confidence: 0,
+      confidenceDetails: null,
+      answered: false,
+      verification: null,
+      processingTime: 0,
+      cached: false,
+      retrieval: null,
+    };
+    try {
+      // "As of" questions search an in-memory index of the versions current at that date
+      const service = asOf ? await documentService.getSnapshotIndex(asOf) : aiService;
+      controller.signal.throwIfAborted();
+      for await (const event of service.queryStream(userQuery, { history, signal: controller.signal })) {
+        if (event.type === 'sources') {
+          response.sources = event.sources;
+          response.citations = event.citations;
+          handlers.onSources?.(event.sources, event.citations);
+        } else if (event.type === 'token') {
+          response.answer += event.token;
+          handlers.onToken?.(event.token, response.answer);
+        } else {
+          // The final answer has citations of passages outside the context removed
+          response.answer = event.answer;
+          response.citations = event.citations;
+          response.confidence = event.confidence;
+          response.confidenceDetails = event.confidenceDetails;
+          response.answered = event.answered;
+          response.verification = event.verification;
+          response.processingTime = event.processingTime;
+          response.cached = event.cached;
+          response.retrieval = event.retrieval;
+        }
+      }
+      setLastResponse(response);
+      return response;
+    } catch (err) {
+      if (controller.signal.aborted) return null;
+      const errorMsg = err instanceof Error ? err.message : 'Query failed';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsLoading(false);
+        setIsStreaming(false);
+      }
+    }
+  }, []);
+
+  /**
+   * Cancel the answer currently being streamed
+   */
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  // Stop streaming when the component using the hook unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
   const indexDocument = useCallback(async (doc: {
     id: string;
     title: string;
@@ -47,19 +153,22 @@ export function useAI(): UseAIReturn {
     setIndexedCount(aiService.getIndexedCount());
   }, []);
 
-  const removeDocument = useCallback((documentId: string) => {
-    aiService.removeDocument(documentId);
+  const removeDocument = useCallback(async (documentId: string): Promise<void> => {
+    await aiService.removeDocument(documentId);
     setIndexedCount(aiService.getIndexedCount());
   }, []);
 
-  const clearIndex = useCallback(() => {
-    aiService.clearIndex();
+  const clearIndex = useCallback(async (): Promise<void> => {
+    await aiService.clearIndex();
     setIndexedCount(0);
   }, []);
 
   return {
     query,
+    streamQuery,
+    cancel,
     isLoading,
+    isStreaming,
     error,
     lastResponse,
     indexDocument,
@@ -2,16 +2,16 @@
  * useDocuments Hook - React hook for document management
  */
 import { useState, useEffect, useCallback } from 'react';
-import { documentService, type Document } from '@/services/document-service';
+import { documentService, type Document, type UploadProgress } from '@/services/document-service';
 
 export interface UseDocumentsReturn {
   documents: Document[];
   isLoading: boolean;
   error: string | null;
-  uploadFile: (file: File) => Promise<Document>;
+  uploadFile: (file: File, onProgress?: (progress: UploadProgress) => void) => Promise<Document>;
   deleteDocument: (id: string) => void;
   updateDocument: (id: string, content: string) => Promise<Document>;
-  clearAll: () => void;
+  clearAll: () => Promise<void>;
   refresh: () => void;
   stats: {
     totalDocuments: number;
@@ -39,11 +39,14 @@ export function useDocuments(): UseDocumentsReturn {
     return unsubscribe;
   }, []);
 
-  const uploadFile = useCallback(async (file: File): Promise<Document> => {
+  const uploadFile = useCallback(async (
+    file: File,
+    onProgress?: (progress: UploadProgress) => void
+  ): Promise<Document> => {
     setIsLoading(true);
     setError(null);
     try {
-      const doc = await documentService.uploadFile(file);
+      const doc = await documentService.uploadFile(file, onProgress);
       return doc;
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : 'Upload failed';
@@ -73,8 +76,15 @@ export function useDocuments(): UseDocumentsReturn {
     }
   }, []);
 
-  const clearAll = useCallback(() => {
-    documentService.clearAll();
+  const clearAll = useCallback(async (): Promise<void> => {
+    setError(null);
+    try {
+      await documentService.clearAll();
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Clearing documents failed';
+      setError(errorMsg);
+      throw err;
+    }
   }, []);
 
   const refresh = useCallback(() => {
@@ -0,0 +1,50 @@
+/**
+ * useSettings Hook - React hook for application settings
+ */
+import { useState, useEffect, useCallback } from 'react';
+import {
+  settingsService,
+  type SaveSettingsResult,
+  type Settings,
+} from '@/services/settings-service';
+
+export interface UseSettingsReturn {
+  settings: Settings;
+  updateSettings: (changes: Partial<Settings>) => SaveSettingsResult;
+  validate: (settings: Settings) => SaveSettingsResult;
+  resetSettings: () => void;
+}
+
+export function useSettings(): UseSettingsReturn {
+  const [settings, setSettings] = useState<Settings>(settingsService.getSettings());
+
+  // Subscribe to updates (including other tabs)
+  useEffect(() => {
+    setSettings(settingsService.getSettings());
+    const unsubscribe = settingsService.onUpdate((updated) => {
+      setSettings(updated);
+    });
+    return unsubscribe;
+  }, []);
+
+  const updateSettings = useCallback((changes: Partial<Settings>): SaveSettingsResult => {
+    return settingsService.updateSettings(changes);
+  }, []);
+
+  const validate = useCallback((draft: Settings): SaveSettingsResult => {
+    return settingsService.validate(draft);
+  }, []);
+
+  const resetSettings = useCallback(() => {
+    settingsService.resetSettings();
+  }, []);
+
+  return {
+    settings,
+    updateSettings,
+    validate,
+    resetSettings,
+  };
+}
+
+export default useSettings;
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, type DiffLine } from './line-diff';
+
+/**
+ * Compact form of a diff: ' ' unchanged, '+' added, '-' removed, followed by the line
+ */
+function summarize(lines: DiffLine[]): string[] {
+  const markers = { unchanged: ' ', added: '+', removed: '-' };
+  return lines.map(line => `${markers[line.type]}${line.text}`);
+}
+
+/**
+ * Rebuild both texts from a diff: the old one from unchanged and removed lines, the new one from unchanged and added
+ */
+function rebuild(lines: DiffLine[]): { oldText: string; newText: string } {
+  return {
+    oldText: lines.filter(line => line.type !== 'added').map(line => line.text).join('\n'),
+    newText: lines.filter(line => line.type !== 'removed').map(line => line.text).join('\n'),
+  };
+}
+
+describe('diffLines', () => {
+  it('marks every line unchanged for identical texts', () => {
+    const lines = diffLines('a\nb\nc', 'a\nb\nc');
+
+    expect(summarize(lines)).toEqual([' a', ' b', ' c']);
+    expect(lines.map(line => [line.oldLine, line.newLine])).toEqual([[1, 1], [2, 2], [3, 3]]);
+  });
+
+  it('finds added and removed lines between unchanged ones', () => {
+    const lines = diffLines('install\nconfigure\nrun\ndeploy', 'install\nrun\ntest\ndeploy');
+
+    expect(summarize(lines)).toEqual([' install', '-configure', ' run', '+test', ' deploy']);
+  });
+
+  it('numbers lines on the side they belong to', () => {
+    const lines = diffLines('a\nb\nc', 'a\nx\nc');
+
+    expect(lines).toEqual([
+      { type: 'unchanged', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'removed', text: 'b', oldLine: 2, newLine: undefined },
+      { type: 'added', text: 'x', oldLine: undefined, newLine: 2 },
+      { type: 'unchanged', text: 'c', oldLine: 3, newLine: 3 },
+    ]);
+  });
+
+  it('handles an empty side', () => {
+    expect(summarize(diffLines('', 'a\nb'))).toEqual(['-', '+a', '+b']);
+    expect(summarize(diffLines('a\nb', 'a\nb\n'))).toEqual([' a', ' b', '+']);
+  });
+
+  it('keeps the longest common subsequence of lines', () => {
+    const lines = diffLines('a\nb\nc\nd\ne\nf', 'b\nx\nd\ne\ny\nf');
+    const unchanged = lines.filter(line => line.type === 'unchanged').map(line => line.text);
+
+    expect(unchanged).toEqual(['b', 'd', 'e', 'f']);
+  });
+
+  it('rebuilds both texts from the diff', () => {
+    const oldText = Array.from({ length: 50 }, (_, i) => `line ${i}`).join('\n');
+    const newText = oldText
+      .split('\n')
+      .filter((_, i) => i % 7 !== 3)
+      .map((line, i) => (i % 11 === 5 ? `${line} (edited)` : line))
+      .join('\n');
+
+    expect(rebuild(diffLines(oldText, newText))).toEqual({ oldText, newText });
+  });
+
+  it('falls back to removed-then-added when the changed region is too large to compare', () => {
+    const oldText = Array.from({ length: 2100 }, (_, i) => `old ${i}`).join('\n');
+    const newText = Array.from({ length: 2100 }, (_, i) => `new ${i}`).join('\n');
+    const lines = diffLines(`same\n${oldText}\nend`, `same\n${newText}\nend`);
+
+    expect(lines[0].type).toBe('unchanged');
+    expect(lines[lines.length - 1].type).toBe('unchanged');
+    expect(lines.slice(1, 2101).every(line => line.type === 'removed')).toBe(true);
+    expect(lines.slice(2101, 4201).every(line => line.type === 'added')).toBe(true);
+    expect(lines[lines.length - 1]).toMatchObject({ oldLine: 2102, newLine: 2102 });
+  });
+});
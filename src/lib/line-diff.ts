@@ -0,0 +1,98 @@
+/**
+ * Line Diff - Line-by-line comparison of two texts by longest common subsequence
+ */
+
+export interface DiffLine {
+  type: 'unchanged' | 'added' | 'removed';
+  text: string;
+  // 1-based line numbers in the old and new text (missing on the side the line is not in)
+  oldLine?: number;
+  newLine?: number;
+}
+
+// Largest LCS table computed; bigger changed regions are shown as removed then added
+const MAX_TABLE_CELLS = 4_000_000;
+
+/**
+ * Lines removed from `oldText` and added in `newText`, in reading order, with unchanged lines between
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  // Common leading and trailing lines need no table
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const lines: DiffLine[] = [];
+
+  for (let i = 0; i < prefix; i++) {
+    lines.push({ type: 'unchanged', text: a[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  diffMiddle(oldMiddle, newMiddle).forEach(({ type, text, oldIndex, newIndex }) => {
+    lines.push({
+      type,
+      text,
+      oldLine: oldIndex === undefined ? undefined : prefix + oldIndex + 1,
+      newLine: newIndex === undefined ? undefined : prefix + newIndex + 1,
+    });
+  });
+
+  for (let i = 0; i < suffix; i++) {
+    const oldIndex = a.length - suffix + i;
+    const newIndex = b.length - suffix + i;
+    lines.push({ type: 'unchanged', text: a[oldIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 });
+  }
+
+  return lines;
+}
+
+/**
+ * Diff of the changed region, with 0-based indexes into each side
+ */
+function diffMiddle(
+  a: string[],
+  b: string[]
+): { type: DiffLine['type']; text: string; oldIndex?: number; newIndex?: number }[] {
+  const removed = a.map((text, oldIndex) => ({ type: 'removed' as const, text, oldIndex }));
+  const added = b.map((text, newIndex) => ({ type: 'added' as const, text, newIndex }));
+  if (a.length === 0 || b.length === 0 || (a.length + 1) * (b.length + 1) > MAX_TABLE_CELLS) {
+    return [...removed, ...added];
+  }
+
+  // lengths[i * width + j]: LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const result: { type: DiffLine['type']; text: string; oldIndex?: number; newIndex?: number }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'unchanged', text: a[i], oldIndex: i++, newIndex: j++ });
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      result.push(removed[i++]);
+    } else {
+      result.push(added[j++]);
+    }
+  }
+  return [...result, ...removed.slice(i), ...added.slice(j)];
+}
@@ -1,47 +1,61 @@
 /**
  * API Route: Document operations
- * POST /api/documents - Upload document
+ * POST /api/documents - Upload document (or update it when the ID already exists)
  * GET /api/documents - List documents
  * DELETE /api/documents - Delete document
+ *
+ * Documents, chunks and embeddings are persisted under DOCU_QUERY_DATA_DIR
  */
 export const prerender = false;
 
 import type { APIRoute } from 'astro';
-
-// In-memory document store (in production, use a database)
-const documents: Map<string, any> = new Map();
+import type { Document } from '@/services/document-service';
+import { extractFileContent, getFileType } from '@/services/content-extractor';
+import { deleteDocument, getKnowledgeBase, saveAndIndexDocument } from '@/server/knowledge-base';
 
 export const POST: APIRoute = async ({ request }) => {
   try {
     const contentType = request.headers.get('content-type') || '';
-    
+    const { repository } = getKnowledgeBase();
+
     if (contentType.includes('multipart/form-data')) {
       // Handle file upload
       const formData = await request.formData();
       const file = formData.get('file') as File;
-      
+
       if (!file) {
         return new Response(JSON.stringify({ error: 'No file provided' }), {
           status: 400,
           headers: { 'Content-Type': 'application/json' },
         });
       }
-      
-      const content = await file.text();
-      const id = crypto.randomUUID();
-      
-      const document = {
-        id,
+
+      let extracted;
+      try {
+        extracted = await extractFileContent(file);
+      } catch (error) {
+        return new Response(
+          JSON.stringify({ error: error instanceof Error ? error.message : 'Failed to read file' }),
+          {
+            status: 422,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      const now = new Date();
+      const document = await saveAndIndexDocument({
+        id: crypto.randomUUID(),
         title: file.name,
-        content,
-        fileType: file.name.split('.').pop() || 'txt',
+        content: extracted.content,
+        fileType: getFileType(file.name),
         fileSize: file.size,
-        uploadedAt: new Date().toISOString(),
-        status: 'indexed',
-      };
-      
-      documents.set(id, document);
-      
+        uploadedAt: now,
+        lastUpdated: now,
+        status: 'processing',
+        pages: extracted.pages,
+      });
+
       return new Response(JSON.stringify(document), {
         status: 201,
         headers: { 'Content-Type': 'application/json' },
@@ -49,22 +63,33 @@ export const POST: APIRoute = async ({ request }) => {
     } else {
       // Handle JSON document
       const body = await request.json();
-      const id = body.id || crypto.randomUUID();
-      
-      const document = {
-        id,
+
+      if (!body.title || typeof body.content !== 'string') {
+        return new Response(JSON.stringify({ error: 'Document title and content required' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      const existing = body.id ? await repository.getDocument(body.id) : undefined;
+      const now = new Date();
+
+      const document: Document = {
+        id: body.id || crypto.randomUUID(),
         title: body.title,
         content: body.content,
         fileType: body.fileType || 'txt',
-        fileSize: body.content?.length || 0,
-        uploadedAt: new Date().toISOString(),
-        status: 'indexed',
+        fileSize: body.fileSize || body.content.length,
+        uploadedAt: existing?.uploadedAt || (body.uploadedAt ? new Date(body.uploadedAt) : now),
+        lastUpdated: now,
+        status: 'processing',
+        pages: Array.isArray(body.pages) ? body.pages : undefined,
       };
-      
-      documents.set(id, document);
-      
+
+      await saveAndIndexDocument(document);
+
       return new Response(JSON.stringify(document), {
-        status: 201,
+        status: existing ? 200 : 201,
         headers: { 'Content-Type': 'application/json' },
       });
     }
@@ -81,32 +106,49 @@ export const POST: APIRoute = async ({ request }) => {
 };
 
 export const GET: APIRoute = async () => {
-  const docs = Array.from(documents.values());
-  
-  return new Response(JSON.stringify({ documents: docs }), {
-    status: 200,
-    headers: { 'Content-Type': 'application/json' },
-  });
+  try {
+    const docs = await getKnowledgeBase().repository.listDocuments();
+
+    return new Response(JSON.stringify({ documents: docs }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Document list error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to list documents' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
 };
 
 export const DELETE: APIRoute = async ({ request }) => {
   try {
     const { id } = await request.json();
-    
+
     if (!id) {
       return new Response(JSON.stringify({ error: 'Document ID required' }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' },
       });
     }
-    
-    documents.delete(id);
-    
+
+    if (!(await deleteDocument(id))) {
+      return new Response(JSON.stringify({ error: 'Document not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
     return new Response(JSON.stringify({ success: true }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
     });
   } catch (error) {
+    console.error('Document delete error:', error);
     return new Response(
       JSON.stringify({ error: 'Failed to delete document' }),
       {
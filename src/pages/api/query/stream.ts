@@ -0,0 +1,94 @@
+/**
+ * API Route: Stream a RAG answer as server-sent events
+ * POST /api/query/stream
+ *
+ * Takes the same body as /api/query (`query`, `topK`, `apiKey`, `history`).
+ * Events: `sources` (retrieved documents and the numbered passages the answer may cite),
+ * `token` (answer text as it is generated), `done` (the final answer with invalid citations
+ * removed, the citations it uses, confidence and its breakdown, whether the question was
+ * answered or found to be outside the documentation, the claim-by-claim verification when
+ * enabled, processing time, whether the answer was cached and how the context was retrieved)
+ * and `error`.
+ */
+export const prerender = false;
+
+import type { APIRoute } from 'astro';
+import { getKnowledgeBase } from '@/server/knowledge-base';
+import { parseQueryRequest } from '@/server/query-request';
+
+export const POST: APIRoute = async ({ request }) => {
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    body = {};
+  }
+  const parsed = parseQueryRequest(body);
+  if ('error' in parsed) {
+    return new Response(JSON.stringify({ error: parsed.error }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+  const { query, apiKey, topK, history } = parsed.request;
+
+  // Stop generating when the client disconnects or cancels the stream
+  const controller = new AbortController();
+  request.signal.addEventListener('abort', () => controller.abort());
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      const send = (event: string, data: unknown) => {
+        streamController.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        const { ai, repository } = getKnowledgeBase();
+        for await (const event of ai.queryStream(query, { topK, apiKey, history, signal: controller.signal })) {
+          if (event.type === 'sources') {
+            // Report when each source document was last changed, not when it was retrieved
+            for (const source of event.sources) {
+              const document = await repository.getDocument(source.id);
+              if (document) source.lastUpdated = document.lastUpdated;
+            }
+            send('sources', { sources: event.sources, citations: event.citations });
+          } else if (event.type === 'token') {
+            send('token', { token: event.token });
+          } else {
+            send('done', {
+              answer: event.answer,
+              citations: event.citations,
+              confidence: event.confidence,
+              confidenceDetails: event.confidenceDetails,
+              answered: event.answered,
+              verification: event.verification,
+              processingTime: event.processingTime,
+              cached: event.cached,
+              retrieval: event.retrieval,
+            });
+          }
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Query stream error:', error);
+          send('error', { error: 'Failed to process query' });
+        }
+      } finally {
+        if (!controller.signal.aborted) streamController.close();
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+};
@@ -0,0 +1,59 @@
+// @vitest-environment node
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileEmbeddingCache } from './document-repository';
+
+// Each test entry is a 10-character key (20 bytes) and four floats (16 bytes)
+const ENTRY_BYTES = 36;
+
+function embedding(value: number): Float32Array {
+  return Float32Array.from([value, value, value, value]);
+}
+
+describe('FileEmbeddingCache', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'embedding-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('reloads cached embeddings from disk', async () => {
+    const cache = new FileEmbeddingCache(dataDir);
+    await cache.put('model:0001', embedding(1));
+    await cache.put('model:0002', embedding(2));
+
+    const reloaded = new FileEmbeddingCache(dataDir);
+    expect(await reloaded.get('model:0002')).toEqual(embedding(2));
+    expect(await reloaded.getStats()).toEqual({ entries: 2, bytes: 2 * ENTRY_BYTES });
+  });
+
+  it('evicts the least recently used entries and compacts the file', async () => {
+    const cache = new FileEmbeddingCache(dataDir, 4 * ENTRY_BYTES);
+    for (let i = 1; i <= 4; i++) await cache.put(`model:000${i}`, embedding(i));
+    await cache.get('model:0001');
+    await cache.put('model:0005', embedding(5));
+
+    // Over the limit, the oldest entries go until the cache is back under 90% of it
+    expect(await cache.get('model:0002')).toBeUndefined();
+    expect(await cache.get('model:0003')).toBeUndefined();
+    expect(await cache.get('model:0001')).toEqual(embedding(1));
+
+    const lines = (await fs.readFile(path.join(dataDir, 'embeddings.jsonl'), 'utf8')).trim().split('\n');
+    expect(lines.map(line => JSON.parse(line).key)).toEqual(['model:0004', 'model:0001', 'model:0005']);
+    expect(await new FileEmbeddingCache(dataDir).getStats()).toEqual({ entries: 3, bytes: 3 * ENTRY_BYTES });
+  });
+
+  it('removes the file when cleared', async () => {
+    const cache = new FileEmbeddingCache(dataDir);
+    await cache.put('model:0001', embedding(1));
+    await cache.clear();
+
+    expect(await new FileEmbeddingCache(dataDir).getStats()).toEqual({ entries: 0, bytes: 0 });
+  });
+});
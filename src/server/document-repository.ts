@@ -0,0 +1,293 @@
+/**
+ * Document Repository - JSON-on-disk storage for the shared knowledge base
+ *
+ * Layout under the data directory:
+ *   documents.json          document records (content, status, timestamps)
+ *   chunks/<documentId>.jsonl  one chunk per line, embeddings as base64 Float32 bytes
+ *   embeddings.jsonl        embedding cache, one `{ key, embedding }` entry per line,
+ *                           rewritten without evicted entries once it outgrows its size limit
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { DocumentChunk } from '@/services/ai-service';
+import type { Document } from '@/services/document-service';
+import type { VectorStoreBackend } from '@/services/vector-store';
+import {
+  EVICT_TO_SHARE,
+  MAX_CACHE_BYTES,
+  getEntryBytes,
+  type EmbeddingCacheBackend,
+} from '@/services/embedding-cache';
+
+type StoredChunk = Omit<DocumentChunk, 'embedding'> & { embedding: string };
+
+/**
+ * Write a file atomically so a crash never leaves half-written JSON behind
+ */
+async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, data, 'utf8');
+  await fs.rename(tempPath, filePath);
+}
+
+function encodeEmbedding(embedding: Float32Array): string {
+  return Buffer.from(embedding.buffer, embedding.byteOffset, embedding.byteLength).toString('base64');
+}
+
+function decodeEmbedding(encoded: string): Float32Array {
+  const bytes = Buffer.from(encoded, 'base64');
+  return new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+}
+
+/**
+ * Keep document IDs safe to use as file names
+ */
+function toFileName(documentId: string): string {
+  return documentId.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * Document Repository Class
+ */
+export class DocumentRepository {
+  private documents: Map<string, Document> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private dataDir: string) {}
+
+  private get documentsFile(): string {
+    return path.join(this.dataDir, 'documents.json');
+  }
+
+  /**
+   * Load document records from disk (once)
+   */
+  private async load(): Promise<Map<string, Document>> {
+    if (!this.documents) {
+      try {
+        const data: Document[] = JSON.parse(await fs.readFile(this.documentsFile, 'utf8'));
+        this.documents = new Map(
+          data.map(doc => [doc.id, {
+            ...doc,
+            uploadedAt: new Date(doc.uploadedAt),
+            lastUpdated: new Date(doc.lastUpdated),
+          }])
+        );
+      } catch (error) {
+        if (!isMissingFile(error)) throw error;
+        this.documents = new Map();
+      }
+    }
+    return this.documents;
+  }
+
+  /**
+   * Persist document records; writes are serialized to avoid interleaving
+   */
+  private persist(): Promise<void> {
+    const write = async () => {
+      await fs.mkdir(this.dataDir, { recursive: true });
+      const data = Array.from((await this.load()).values());
+      await writeFileAtomic(this.documentsFile, JSON.stringify(data, null, 2));
+    };
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+
+  /**
+   * Get all documents, most recently updated first
+   */
+  async listDocuments(): Promise<Document[]> {
+    return Array.from((await this.load()).values()).sort(
+      (a, b) => b.lastUpdated.getTime() - a.lastUpdated.getTime()
+    );
+  }
+
+  /**
+   * Get document by ID
+   */
+  async getDocument(id: string): Promise<Document | undefined> {
+    return (await this.load()).get(id);
+  }
+
+  /**
+   * Create or replace a document record
+   */
+  async saveDocument(document: Document): Promise<Document> {
+    (await this.load()).set(document.id, document);
+    await this.persist();
+    return document;
+  }
+
+  /**
+   * Delete a document record
+   */
+  async deleteDocument(id: string): Promise<boolean> {
+    const deleted = (await this.load()).delete(id);
+    if (deleted) await this.persist();
+    return deleted;
+  }
+}
+
+/**
+ * Vector store backend that keeps chunks and embeddings in the data directory
+ */
+export class FileVectorStore implements VectorStoreBackend {
+  constructor(private dataDir: string) {}
+
+  private get chunksDir(): string {
+    return path.join(this.dataDir, 'chunks');
+  }
+
+  private chunkFile(documentId: string): string {
+    return path.join(this.chunksDir, `${toFileName(documentId)}.jsonl`);
+  }
+
+  async loadAll(): Promise<DocumentChunk[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.chunksDir);
+    } catch (error) {
+      if (isMissingFile(error)) return [];
+      throw error;
+    }
+
+    const chunks = new Map<string, DocumentChunk>();
+    for (const file of files.filter(name => name.endsWith('.jsonl'))) {
+      const lines = (await fs.readFile(path.join(this.chunksDir, file), 'utf8')).split('\n');
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const stored: StoredChunk = JSON.parse(line);
+        // Later lines win, so re-written chunks replace earlier versions
+        chunks.set(stored.id, { ...stored, embedding: decodeEmbedding(stored.embedding) });
+      }
+    }
+    return Array.from(chunks.values());
+  }
+
+  async putChunk(chunk: DocumentChunk): Promise<void> {
+    const stored: StoredChunk = { ...chunk, embedding: encodeEmbedding(chunk.embedding) };
+    await fs.mkdir(this.chunksDir, { recursive: true });
+    await fs.appendFile(this.chunkFile(chunk.documentId), JSON.stringify(stored) + '\n', 'utf8');
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    await fs.rm(this.chunkFile(documentId), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.chunksDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Embedding cache backend appended to a single file in the data directory
+ * Least recently used entries are evicted like in the browser caches, and the file is
+ * compacted to the remaining entries when that happens
+ */
+export class FileEmbeddingCache implements EmbeddingCacheBackend {
+  // Kept in least-recently-used order
+  private entries: Promise<Map<string, Float32Array>> | null = null;
+  private bytes = 0;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private dataDir: string, private maxBytes = MAX_CACHE_BYTES) {}
+
+  private get cacheFile(): string {
+    return path.join(this.dataDir, 'embeddings.jsonl');
+  }
+
+  /**
+   * Load the cache file once and keep it in memory
+   */
+  private load(): Promise<Map<string, Float32Array>> {
+    if (!this.entries) {
+      this.entries = (async () => {
+        const entries = new Map<string, Float32Array>();
+        let content: string;
+        try {
+          content = await fs.readFile(this.cacheFile, 'utf8');
+        } catch (error) {
+          if (isMissingFile(error)) return entries;
+          throw error;
+        }
+        for (const line of content.split('\n')) {
+          if (!line.trim()) continue;
+          const stored: { key: string; embedding: string } = JSON.parse(line);
+          entries.set(stored.key, decodeEmbedding(stored.embedding));
+        }
+        this.bytes = 0;
+        entries.forEach((embedding, key) => {
+          this.bytes += getEntryBytes(key, embedding);
+        });
+        return entries;
+      })();
+    }
+    return this.entries;
+  }
+
+  /**
+   * Run file writes one at a time so appends never interleave with a compaction
+   */
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+
+  async get(key: string): Promise<Float32Array | undefined> {
+    const entries = await this.load();
+    const embedding = entries.get(key);
+    if (embedding) {
+      entries.delete(key);
+      entries.set(key, embedding);
+    }
+    return embedding;
+  }
+
+  async put(key: string, embedding: Float32Array): Promise<void> {
+    const entries = await this.load();
+    if (entries.has(key)) {
+      await this.get(key);
+      return;
+    }
+    entries.set(key, embedding);
+    this.bytes += getEntryBytes(key, embedding);
+
+    if (this.bytes <= this.maxBytes) {
+      const line = JSON.stringify({ key, embedding: encodeEmbedding(embedding) }) + '\n';
+      return this.enqueueWrite(async () => {
+        await fs.mkdir(this.dataDir, { recursive: true });
+        await fs.appendFile(this.cacheFile, line, 'utf8');
+      });
+    }
+
+    for (const [oldKey, oldEmbedding] of entries) {
+      if (this.bytes <= this.maxBytes * EVICT_TO_SHARE) break;
+      entries.delete(oldKey);
+      this.bytes -= getEntryBytes(oldKey, oldEmbedding);
+    }
+    return this.enqueueWrite(async () => {
+      await fs.mkdir(this.dataDir, { recursive: true });
+      const lines = Array.from(entries, ([entryKey, entryEmbedding]) =>
+        JSON.stringify({ key: entryKey, embedding: encodeEmbedding(entryEmbedding) }) + '\n'
+      );
+      await writeFileAtomic(this.cacheFile, lines.join(''));
+    });
+  }
+
+  async clear(): Promise<void> {
+    this.entries = Promise.resolve(new Map());
+    this.bytes = 0;
+    await this.enqueueWrite(() => fs.rm(this.cacheFile, { force: true }));
+  }
+
+  async getStats(): Promise<{ entries: number; bytes: number }> {
+    const entries = await this.load();
+    return { entries: entries.size, bytes: this.bytes };
+  }
+}
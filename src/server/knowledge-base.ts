@@ -0,0 +1,93 @@
+/**
+ * Knowledge Base - Shared server-side document store and search index
+ * Every browser talking to this server sees the same documents
+ */
+
+import path from 'node:path';
+import { AIService } from '@/services/ai-service';
+import type { Document } from '@/services/document-service';
+import type { ProviderConfig, ProviderId } from '@/services/llm-providers';
+import { DocumentRepository, FileEmbeddingCache, FileVectorStore } from './document-repository';
+
+export interface KnowledgeBase {
+  repository: DocumentRepository;
+  ai: AIService;
+}
+
+let knowledgeBase: KnowledgeBase | null = null;
+
+/**
+ * Resolve the data directory (DOCU_QUERY_DATA_DIR, defaulting to ./data)
+ */
+export function getDataDir(): string {
+  return path.resolve(process.env.DOCU_QUERY_DATA_DIR || 'data');
+}
+
+/**
+ * Provider settings for the server (DOCU_QUERY_PROVIDER, DOCU_QUERY_BASE_URL, ...);
+ * unset values fall back to the provider defaults
+ */
+function getServerProviderConfig(): Partial<ProviderConfig> {
+  const env = process.env;
+  return {
+    provider: env.DOCU_QUERY_PROVIDER as ProviderId | undefined,
+    baseUrl: env.DOCU_QUERY_BASE_URL,
+    completionModel: env.DOCU_QUERY_MODEL,
+    embeddingModel: env.DOCU_QUERY_EMBEDDING_MODEL,
+    apiVersion: env.DOCU_QUERY_AZURE_API_VERSION,
+  };
+}
+
+/**
+ * Get the shared knowledge base, created on first use
+ */
+export function getKnowledgeBase(): KnowledgeBase {
+  if (!knowledgeBase) {
+    const dataDir = getDataDir();
+    knowledgeBase = {
+      repository: new DocumentRepository(dataDir),
+      ai: new AIService({
+        apiKey: process.env.DOCU_QUERY_API_KEY || process.env.OPENAI_API_KEY,
+        store: new FileVectorStore(dataDir),
+        embeddingCache: new FileEmbeddingCache(dataDir),
+        providerConfig: getServerProviderConfig(),
+      }),
+    };
+  }
+  return knowledgeBase;
+}
+
+/**
+ * Save a document and (re-)index its content, recording the outcome on the document
+ */
+export async function saveAndIndexDocument(document: Document): Promise<Document> {
+  const { repository, ai } = getKnowledgeBase();
+
+  await ai.removeDocument(document.id);
+  try {
+    await ai.indexDocument({
+      id: document.id,
+      title: document.title,
+      content: document.content,
+      fileType: document.fileType,
+      pages: document.pages,
+    });
+    document.status = 'indexed';
+    document.error = undefined;
+  } catch (error) {
+    console.error('Error indexing document:', error);
+    document.status = 'error';
+    document.error = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  return repository.saveDocument(document);
+}
+
+/**
+ * Delete a document and its chunks
+ */
+export async function deleteDocument(id: string): Promise<boolean> {
+  const { repository, ai } = getKnowledgeBase();
+  await ai.removeDocument(id);
+  return repository.deleteDocument(id);
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { parseQueryRequest } from './query-request';
+
+describe('parseQueryRequest', () => {
+  it('accepts a query with optional fields', () => {
+    const history = [{ question: 'What is the CLI?', answer: 'A command-line tool.' }];
+
+    expect(parseQueryRequest({ query: 'How do I install it?', topK: 5, history })).toEqual({
+      request: { query: 'How do I install it?', topK: 5, history },
+    });
+  });
+
+  it('requires a non-empty query in an object body', () => {
+    expect(parseQueryRequest(null)).toEqual({ error: 'Query is required' });
+    expect(parseQueryRequest('How do I install it?')).toEqual({ error: 'Query is required' });
+    expect(parseQueryRequest({ query: '' })).toEqual({ error: 'Query is required' });
+  });
+
+  it('rejects an out-of-range topK and malformed history', () => {
+    expect(parseQueryRequest({ query: 'q', topK: 21 })).toEqual({ error: 'topK must be an integer between 1 and 20' });
+    expect(parseQueryRequest({ query: 'q', topK: '5' })).toEqual({ error: 'topK must be an integer between 1 and 20' });
+    expect(parseQueryRequest({ query: 'q', history: [{ question: 'q' }] })).toEqual({
+      error: 'history must be a list of { question, answer } turns',
+    });
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Query Request - Validation of the request body shared by /api/query and /api/query/stream
+ */
+
+import { z } from 'zod';
+import type { ConversationTurn } from '@/services/ai-service';
+
+// Upper bound on retrieved chunks per request
+const MAX_TOP_K = 20;
+
+export interface QueryRequest {
+  query: string;
+  apiKey?: string;
+  topK?: number;
+  // Earlier question/answer turns, for follow-up questions
+  history?: ConversationTurn[];
+}
+
+const TOP_K_ERROR = `topK must be an integer between 1 and ${MAX_TOP_K}`;
+const HISTORY_ERROR = 'history must be a list of { question, answer } turns';
+
+const queryRequestSchema = z.object({
+  query: z.string({ required_error: 'Query is required', invalid_type_error: 'Query is required' })
+    .min(1, 'Query is required'),
+  apiKey: z.string({ invalid_type_error: 'apiKey must be a string' }).optional(),
+  topK: z.number({ invalid_type_error: TOP_K_ERROR }).int(TOP_K_ERROR).min(1, TOP_K_ERROR).max(MAX_TOP_K, TOP_K_ERROR).optional(),
+  history: z.array(
+    z.object({ question: z.string(), answer: z.string() }),
+    { invalid_type_error: HISTORY_ERROR }
+  ).optional(),
+});
+
+/**
+ * Validate a query request body; `error` describes the first invalid field
+ */
+export function parseQueryRequest(body: unknown): { request: QueryRequest } | { error: string } {
+  const result = queryRequestSchema.safeParse(typeof body === 'object' && body !== null ? body : {});
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    // Issues inside a turn would otherwise surface zod's generic type messages
+    return { error: issue.path[0] === 'history' ? HISTORY_ERROR : issue.message };
+  }
+  return { request: result.data as QueryRequest };
+}
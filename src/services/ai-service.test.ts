@@ -0,0 +1,250 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AIService, NOT_AVAILABLE_ANSWER, type EmbeddingResult, type QueryStreamEvent } from './ai-service';
+import { registerChunkingStrategy } from './chunking';
+import { MemoryEmbeddingCache } from './embedding-cache';
+import { generateLocalEmbedding } from './local-embeddings';
+import type { CompletionProvider, CompletionRequest, EmbeddingProvider } from './llm-providers';
+import { settingsService } from './settings-service';
+import { MemoryVectorStore } from './vector-store';
+
+/**
+ * Embedding provider that embeds locally and records every text it was asked to embed
+ */
+class RecordingEmbeddingProvider implements EmbeddingProvider {
+  readonly model = 'fake-embedding';
+  texts: string[] = [];
+
+  async embed(text: string): Promise<EmbeddingResult> {
+    this.texts.push(text);
+    return { embedding: generateLocalEmbedding(text), tokenCount: 0, model: this.model };
+  }
+
+  async embedBatch(texts: string[]): Promise<EmbeddingResult[]> {
+    return Promise.all(texts.map(text => this.embed(text)));
+  }
+}
+
+/**
+ * Completion provider that replies with a fixed answer (or runs `reply` for each request) and records requests
+ */
+class FakeCompletionProvider implements CompletionProvider {
+  readonly id = 'fake';
+  requests: CompletionRequest[] = [];
+
+  constructor(private reply: string | ((request: CompletionRequest) => Promise<string>) = 'Run npm install -g docu-cli [1].') {}
+
+  async complete(request: CompletionRequest): Promise<string> {
+    this.requests.push(request);
+    return typeof this.reply === 'string' ? this.reply : this.reply(request);
+  }
+
+  async *stream(request: CompletionRequest): AsyncGenerator<string> {
+    const answer = await this.complete(request);
+    for (const word of answer.split(/(?<= )/)) yield word;
+  }
+
+  async checkConnection(): Promise<boolean> {
+    return true;
+  }
+}
+
+const DOCUMENTS = [
+  { id: 'cli', title: 'CLI Guide', content: 'To install the CLI, run npm install -g docu-cli. Node.js 18 or later is required.', fileType: 'txt' },
+  { id: 'server', title: 'Server Guide', content: 'The server listens on port 4321 by default. Change it with the PORT environment variable.', fileType: 'txt' },
+];
+
+const QUESTION = 'How do I install the CLI?';
+
+function createService(completionProvider: CompletionProvider = new FakeCompletionProvider()) {
+  const embeddingProvider = new RecordingEmbeddingProvider();
+  const service = new AIService({
+    store: new MemoryVectorStore(),
+    embeddingCache: new MemoryEmbeddingCache(),
+    embeddingProvider,
+    completionProvider,
+  });
+  return { service, embeddingProvider };
+}
+
+/**
+ * Service with the sample documents indexed
+ */
+async function createIndexedService(completionProvider: CompletionProvider = new FakeCompletionProvider()) {
+  const created = createService(completionProvider);
+  for (const document of DOCUMENTS) await created.service.indexDocument(document);
+  return created;
+}
+
+async function collect(stream: AsyncGenerator<QueryStreamEvent>): Promise<QueryStreamEvent[]> {
+  const events: QueryStreamEvent[] = [];
+  for await (const event of stream) events.push(event);
+  return events;
+}
+
+describe('AIService', () => {
+  afterEach(() => {
+    settingsService.resetSettings();
+    vi.restoreAllMocks();
+  });
+
+  describe('indexing', () => {
+    it('chunks with the chunk size and overlap from settings', async () => {
+      const text = Array.from({ length: 40 }, (_, i) => `Sentence ${i} has a handful of words in it.`).join(' ');
+      const small = createService();
+      const large = createService();
+
+      settingsService.updateSettings({ chunkSize: 50, chunkOverlap: 0 });
+      await small.service.indexDocument({ id: 'a', title: 'A', content: text, fileType: 'txt' });
+      settingsService.updateSettings({ chunkSize: 1000, chunkOverlap: 0 });
+      await large.service.indexDocument({ id: 'a', title: 'A', content: text, fileType: 'txt' });
+
+      expect(small.embeddingProvider.texts.length).toBeGreaterThan(large.embeddingProvider.texts.length);
+      expect(large.embeddingProvider.texts).toHaveLength(1);
+    });
+
+    it('uses a registered chunking strategy', async () => {
+      registerChunkingStrategy('lines', {
+        split: text => {
+          let offset = 0;
+          return text.split('\n').map(line => {
+            const chunk = { content: line, startOffset: offset, endOffset: offset + line.length };
+            offset += line.length + 1;
+            return chunk;
+          });
+        },
+      });
+      const { service, embeddingProvider } = createService();
+
+      await service.indexDocument({ id: 'a', title: 'A', content: 'first\nsecond\nthird', fileType: 'lines' });
+      expect(embeddingProvider.texts).toEqual(['first', 'second', 'third']);
+    });
+  });
+
+  describe('query', () => {
+    it('answers from the retrieved chunks and drops citations of passages outside the context', async () => {
+      const provider = new FakeCompletionProvider('Run npm install -g docu-cli [1]. Use Node.js 18 [7].');
+      const { service } = await createIndexedService(provider);
+      settingsService.updateSettings({ answerThreshold: 0 });
+
+      const response = await service.query(QUESTION);
+
+      expect(response.answered).toBe(true);
+      expect(response.answer).toBe('Run npm install -g docu-cli [1]. Use Node.js 18.');
+      expect(response.citations.map(citation => citation.number)).toEqual([1]);
+      expect(response.sources[0].id).toBe('cli');
+      expect(response.confidenceDetails).not.toBeNull();
+      expect(provider.requests[0].messages[0].content).toContain('npm install -g docu-cli');
+      expect(provider.requests[0].messages.at(-1)).toEqual({ role: 'user', content: QUESTION });
+    });
+
+    it('serves repeated questions from the cache until a document is indexed again', async () => {
+      const provider = new FakeCompletionProvider();
+      const { service } = await createIndexedService(provider);
+      settingsService.updateSettings({ answerThreshold: 0 });
+
+      const first = await service.query(QUESTION);
+      const second = await service.query('  how do I install the CLI ');
+      expect(first.cached).toBe(false);
+      expect(second).toMatchObject({ cached: true, answer: first.answer });
+      expect(provider.requests).toHaveLength(1);
+
+      await service.indexDocument(DOCUMENTS[0]);
+      expect((await service.query(QUESTION)).cached).toBe(false);
+      expect(provider.requests).toHaveLength(2);
+    });
+
+    it('does not call the model below the answer threshold', async () => {
+      const provider = new FakeCompletionProvider();
+      const { service } = await createIndexedService(provider);
+      settingsService.updateSettings({ answerThreshold: 1 });
+
+      const response = await service.query('What is the capital of France?');
+
+      expect(response).toMatchObject({ answer: NOT_AVAILABLE_ANSWER, answered: false, sources: [], citations: [] });
+      expect(provider.requests).toEqual([]);
+    });
+
+    it('falls back to a summary of the sources when the provider fails, without caching it', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const provider = new FakeCompletionProvider(() => Promise.reject(new Error('Provider API error: 500')));
+      const { service } = await createIndexedService(provider);
+      settingsService.updateSettings({ answerThreshold: 0 });
+
+      const response = await service.query(QUESTION);
+      expect(response.answer).toContain('Based on the latest documentation analysis');
+      expect(response.answer).toContain('npm install -g docu-cli');
+      expect(response.answered).toBe(true);
+
+      await service.query(QUESTION);
+      expect(provider.requests).toHaveLength(2);
+    });
+
+    it('passes the caller\'s signal to the provider and stops when it is aborted', async () => {
+      const provider = new FakeCompletionProvider(request => new Promise((_, reject) => {
+        request.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      }));
+      const { service } = createService(provider);
+      settingsService.updateSettings({ answerThreshold: 0 });
+      await service.indexDocument({ id: 'cli', title: 'CLI', content: 'Install the CLI with npm install -g docu-cli.', fileType: 'txt' });
+
+      const controller = new AbortController();
+      const answer = service.query('How do I install the CLI?', { signal: controller.signal });
+      await vi.waitFor(() => expect(provider.requests).toHaveLength(1));
+      controller.abort();
+
+      await expect(answer).rejects.toThrow('Aborted');
+      expect(provider.requests[0].signal).toBe(controller.signal);
+    });
+  });
+
+  describe('queryStream', () => {
+    it('reports the sources, then the answer token by token, then the final response', async () => {
+      const { service } = await createIndexedService(new FakeCompletionProvider('Run npm install -g docu-cli [1].'));
+      settingsService.updateSettings({ answerThreshold: 0 });
+
+      const events = await collect(service.queryStream(QUESTION));
+      const tokens = events.filter(event => event.type === 'token');
+      const done = events.at(-1)!;
+
+      expect(events[0].type === 'sources' && events[0].citations[0]).toMatchObject({ number: 1, documentId: 'cli' });
+      expect(tokens.length).toBeGreaterThan(1);
+      expect(tokens.map(event => event.token).join('')).toBe('Run npm install -g docu-cli [1].');
+      expect(done).toMatchObject({ type: 'done', answer: 'Run npm install -g docu-cli [1].', answered: true, cached: false });
+    });
+
+    it('streams the not-available answer below the answer threshold', async () => {
+      const provider = new FakeCompletionProvider();
+      const { service } = await createIndexedService(provider);
+      settingsService.updateSettings({ answerThreshold: 1 });
+
+      const done = (await collect(service.queryStream(QUESTION))).at(-1)!;
+
+      expect(done).toMatchObject({ type: 'done', answer: NOT_AVAILABLE_ANSWER, answered: false });
+      expect(provider.requests).toEqual([]);
+    });
+
+    it('streams the fallback answer when the provider fails before the first token', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const { service } = await createIndexedService(
+        new FakeCompletionProvider(() => Promise.reject(new Error('Provider API error: 500')))
+      );
+      settingsService.updateSettings({ answerThreshold: 0 });
+
+      const done = (await collect(service.queryStream(QUESTION))).at(-1)!;
+
+      expect(done.type === 'done' && done.answer).toContain('Based on the latest documentation analysis');
+    });
+
+    it('replays a cached answer', async () => {
+      const provider = new FakeCompletionProvider();
+      const { service } = await createIndexedService(provider);
+      settingsService.updateSettings({ answerThreshold: 0 });
+
+      await service.query(QUESTION);
+      const done = (await collect(service.queryStream(QUESTION))).at(-1)!;
+
+      expect(done).toMatchObject({ type: 'done', cached: true });
+      expect(provider.requests).toHaveLength(1);
+    });
+  });
+});
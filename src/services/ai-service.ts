@@ -3,63 +3,253 @@
  * Handles embeddings, completions, and document retrieval
  */
 
+import type { ChunkingOptions } from './chunking';
+import { validateCitations, type Citation } from './citations';
+import { LexicalVerifier, LlmVerifier, splitClaims, type ClaimCheck } from './answer-verifier';
+import {
+  combineConfidence,
+  getSimilarityRange,
+  rateGroundedness,
+  scoreCoverage,
+  scoreRetrieval,
+  type ConfidenceBreakdown,
+} from './confidence';
+import { LOCAL_EMBEDDING_MODEL } from './local-embeddings';
+import { fuseRankings, KeywordIndex } from './keyword-index';
+import { normalizeQuery, QueryCache } from './query-cache';
+import { LlmReranker, LocalReranker, selectWithMmr, type RerankCandidate } from './reranker';
+import { createDefaultVectorStore, type VectorStoreBackend } from './vector-store';
+import { createDefaultEmbeddingCache, getEmbeddingCacheKey, type EmbeddingCacheBackend } from './embedding-cache';
+import { processingClient } from './processing-client';
+import type { DocumentChunkSpan, IndexedVector } from './processing-protocol';
+import { settingsService } from './settings-service';
+import {
+  createCompletionProvider,
+  createEmbeddingProvider,
+  DEFAULT_AZURE_API_VERSION,
+  getProviderOption,
+  LocalEmbeddingProvider,
+  type CompletionProvider,
+  type CompletionRequest,
+  type EmbeddingProvider,
+  type ProviderConfig,
+} from './llm-providers';
+
 // Types
 export interface AIQueryResponse {
   answer: string;
   sources: DocumentSource[];
+  // Passages cited inline in the answer ([1], [2], ...)
+  citations: Citation[];
   confidence: number;
+  // Signals behind the confidence score; null until the stream reports them
+  confidenceDetails: ConfidenceBreakdown | null;
+  // False when confidence was below the answer threshold, so the model was not asked
+  answered: boolean;
+  // Claim-by-claim check of the answer against the context, when verification is enabled
+  verification: AnswerVerification | null;
   processingTime: number;
+  // True when the answer was served from the query cache
+  cached: boolean;
+  // Candidates and re-ranking behind the answer; null until the stream reports them
+  retrieval: RetrievalDebug | null;
+}
+
+/**
+ * A question and its answer from earlier in a conversation
+ */
+export interface ConversationTurn {
+  question: string;
+  answer: string;
 }
 
+export interface QueryOptions {
+  topK?: number;
+  // Earlier turns of the conversation, oldest first; follow-up questions are resolved against them
+  history?: ConversationTurn[];
+  // Key used for the answer only; embeddings keep the key the index was built with
+  apiKey?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Events emitted by a streaming query: sources (and the numbered passages the answer may cite) first,
+ * then answer tokens, then the final answer with invalid citations removed and timing
+ */
+export type QueryStreamEvent =
+  | { type: 'sources'; sources: DocumentSource[]; citations: Citation[] }
+  | { type: 'token'; token: string }
+  | {
+      type: 'done';
+      answer: string;
+      citations: Citation[];
+      confidence: number;
+      confidenceDetails: ConfidenceBreakdown;
+      answered: boolean;
+      verification: AnswerVerification | null;
+      processingTime: number;
+      cached: boolean;
+      retrieval: RetrievalDebug;
+    };
+
 export interface DocumentSource {
   id: string;
   title: string;
   content: string;
   relevanceScore: number;
   lastUpdated: Date;
+  pageNumbers?: number[];
+  sections?: string[];
+}
+
+export interface RetrievalCandidate {
+  chunkId: string;
+  documentId: string;
+  title: string;
+  // Weighted reciprocal rank fusion of the vector and keyword rankings
+  fusedScore: number;
+  similarity: number;
+  rerankScore?: number;
+  // Position in the answer context (1-based), when the chunk was picked
+  selectedRank?: number;
+}
+
+/**
+ * How the answer context was chosen, for the debug output
+ */
+export interface RetrievalDebug {
+  // Query the chunks were retrieved for (follow-up questions are rewritten to stand alone)
+  query: string;
+  // Re-ranker that scored the candidates, or null when re-ranking is off
+  reranker: string | null;
+  // Why the preferred re-ranker could not be used, if it failed
+  rerankError?: string;
+  diversity: number;
+  candidates: RetrievalCandidate[];
+}
+
+/**
+ * Result of checking each sentence of an answer against the retrieved chunks
+ */
+export interface AnswerVerification {
+  // Verifier that checked the claims
+  verifier: string;
+  // Why the preferred verifier could not be used, if it failed
+  verifyError?: string;
+  claims: ClaimCheck[];
 }
 
 export interface EmbeddingResult {
   embedding: number[];
   tokenCount: number;
+  model: string;
 }
 
 export interface DocumentChunk {
   id: string;
   documentId: string;
   content: string;
-  embedding: number[];
+  embedding: Float32Array;
+  embeddingModel?: string;
   metadata: {
     title: string;
     fileType: string;
     chunkIndex: number;
     totalChunks: number;
+    startOffset: number;
+    endOffset: number;
+    pageNumber?: number;
+    headingPath?: string[];
   };
 }
 
+export interface DocumentPage {
+  pageNumber: number;
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface IndexingProgress {
+  // Chunks with an embedding so far (cached ones count immediately)
+  embedded: number;
+  total: number;
+  completedBatches: number;
+  totalBatches: number;
+}
+
+export interface IndexDocumentOptions {
+  onProgress?: (progress: IndexingProgress) => void;
+  // Stops indexing between embedding batches; the partial index is removed
+  signal?: AbortSignal;
+}
+
+export interface AIServiceOptions {
+  apiKey?: string;
+  store?: VectorStoreBackend;
+  embeddingCache?: EmbeddingCacheBackend;
+  // Overrides for the provider settings saved on the Settings page
+  providerConfig?: Partial<ProviderConfig>;
+  // Fixed providers (e.g. fakes in tests) take precedence over the configured ones
+  completionProvider?: CompletionProvider;
+  embeddingProvider?: EmbeddingProvider;
+}
+
+// Answer given without calling the model when the documentation does not seem to cover a question
+export const NOT_AVAILABLE_ANSWER = 'This information is not available in the current documentation.';
+
 // Configuration
 const AI_CONFIG = {
   openaiApiKey: import.meta.env.PUBLIC_OPENAI_API_KEY || '',
-  embeddingModel: 'text-embedding-3-small',
-  completionModel: 'gpt-4o-mini',
-  maxTokens: 2000,
-  temperature: 0.7,
   topK: 5, // Number of relevant documents to retrieve
+  rrfK: 60, // Reciprocal rank fusion constant
+  embeddingBatchSize: 64, // Chunks per embeddings request
+  embeddingConcurrency: 3, // Embeddings requests in flight per document
+  maxHistoryTurns: 6, // Earlier conversation turns sent along with a question
 };
 
 /**
- * Get API key from environment or localStorage
+ * Run a task for every item with at most `limit` tasks in flight; rejects on the first failure
+ */
+async function runWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const item = items[next++];
+      try {
+        await task(item);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+// Names the worker-side vector index of each AIService instance
+let vectorIndexCount = 0;
+
+/**
+ * Whether a question probably depends on earlier turns (refers back to something, or is too short to stand alone)
+ */
+function isFollowUp(question: string): boolean {
+  return /\b(it|its|that|this|these|those|they|them|there|one|ones|same)\b/i.test(question) ||
+    question.trim().split(/\s+/).length <= 3;
+}
+
+/**
+ * Embedding of a chunk as mirrored into the processing worker
+ */
+function toIndexedVector(chunk: DocumentChunk): IndexedVector {
+  return { id: chunk.id, embedding: chunk.embedding, model: chunk.embeddingModel || '' };
+}
+
+/**
+ * Get API key from environment or settings
  */
 function getApiKey(): string {
-  // First try environment variable
-  if (AI_CONFIG.openaiApiKey) {
-    return AI_CONFIG.openaiApiKey;
-  }
-  // Then try localStorage
-  if (typeof window !== 'undefined') {
-    return localStorage.getItem('docu-query-openai-key') || '';
-  }
-  return '';
+  return AI_CONFIG.openaiApiKey || settingsService.getSettings().openaiApiKey;
 }
 
 /**
@@ -67,123 +257,217 @@ function getApiKey(): string {
  */
 export class AIService {
   private apiKey: string;
+  private providerOverrides: Partial<ProviderConfig>;
+  private fixedCompletionProvider?: CompletionProvider;
+  private fixedEmbeddingProvider?: EmbeddingProvider;
   private vectorStore: Map<string, DocumentChunk> = new Map();
+  private keywordIndex = new KeywordIndex();
+  private store: VectorStoreBackend;
+  private embeddingCache: EmbeddingCacheBackend;
+  private ready: Promise<void>;
+  private queryCache = new QueryCache<AIQueryResponse>();
+  // Bumped whenever a document is (re-)indexed so cached answers never outlive the content they used
+  private documentVersions: Map<string, number> = new Map();
+  private indexVersion = 0;
+  // Embeddings are mirrored into the processing worker, which scores them during search
+  private vectorIndex = `vectors-${++vectorIndexCount}`;
+  private unsubscribeReset: () => void;
 
-  constructor(apiKey?: string) {
-    this.apiKey = apiKey || getApiKey();
-    this.loadVectorStore();
+  constructor(options: AIServiceOptions = {}) {
+    this.apiKey = options.apiKey || '';
+    this.providerOverrides = options.providerConfig || {};
+    this.fixedCompletionProvider = options.completionProvider;
+    this.fixedEmbeddingProvider = options.embeddingProvider;
+    this.store = options.store || createDefaultVectorStore();
+    this.embeddingCache = options.embeddingCache || createDefaultEmbeddingCache();
+    this.ready = this.loadVectorStore();
+    this.unsubscribeReset = processingClient.onReset(() => {
+      this.syncVectors().catch(error => console.error('Error syncing vectors:', error));
+    });
+  }
+
+  /**
+   * Release the worker-side vector index of a short-lived instance (e.g. an "as of" snapshot);
+   * the persisted store is left alone
+   */
+  async dispose(): Promise<void> {
+    this.unsubscribeReset();
+    await processingClient.request({ type: 'clearVectors', index: this.vectorIndex });
   }
 
   /**
-   * Update API key dynamically
+   * Resolve once the persisted index has been loaded
+   */
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  /**
+   * Update API key dynamically (overrides the key from settings)
    */
   setApiKey(key: string): void {
     this.apiKey = key;
   }
 
   /**
-   * Load vector store from localStorage
+   * Chunk size and overlap (in tokens) from settings, used for newly indexed documents
    */
-  private loadVectorStore(): void {
-    if (typeof window !== 'undefined') {
-      try {
-        const stored = localStorage.getItem('docu-query-vectors');
-        if (stored) {
-          const data = JSON.parse(stored);
-          this.vectorStore = new Map(Object.entries(data));
-        }
-      } catch (error) {
-        console.error('Error loading vector store:', error);
-      }
-    }
+  getChunkingOptions(): ChunkingOptions {
+    const settings = settingsService.getSettings();
+    return { chunkSize: settings.chunkSize, overlap: settings.chunkOverlap };
   }
 
   /**
-   * Save vector store to localStorage
+   * Load the persisted vector store into memory
    */
-  private saveVectorStore(): void {
-    if (typeof window !== 'undefined') {
-      try {
-        const data = Object.fromEntries(this.vectorStore);
-        localStorage.setItem('docu-query-vectors', JSON.stringify(data));
-      } catch (error) {
-        console.error('Error saving vector store:', error);
-      }
+  private async loadVectorStore(): Promise<void> {
+    try {
+      const chunks = await this.store.loadAll();
+      chunks.forEach(chunk => {
+        this.vectorStore.set(chunk.id, chunk);
+        this.addToKeywordIndex(chunk);
+      });
+      await this.syncVectors();
+    } catch (error) {
+      console.error('Error loading vector store:', error);
     }
   }
 
   /**
-   * Generate embeddings for text using OpenAI
+   * Send every embedding in the index to the processing worker
+   */
+  private async syncVectors(): Promise<void> {
+    await processingClient.request({ type: 'clearVectors', index: this.vectorIndex });
+    await processingClient.request({
+      type: 'putVectors',
+      index: this.vectorIndex,
+      vectors: Array.from(this.vectorStore.values(), toIndexedVector),
+    });
+  }
+
+  /**
+   * Resolve the provider configuration from constructor overrides and saved settings
+   */
+  getProviderConfig(apiKey?: string): ProviderConfig {
+    const overrides = this.providerOverrides;
+    const settings = settingsService.getSettings();
+    const option = getProviderOption(overrides.provider || settings.provider);
+
+    return {
+      provider: option.id,
+      apiKey: apiKey || overrides.apiKey || this.apiKey || getApiKey(),
+      baseUrl: overrides.baseUrl || settings.baseUrl || option.defaultBaseUrl,
+      completionModel: overrides.completionModel || settings.modelName || option.defaultModel,
+      embeddingModel: overrides.embeddingModel || settings.embeddingModel || option.defaultEmbeddingModel,
+      apiVersion: overrides.apiVersion || settings.apiVersion || DEFAULT_AZURE_API_VERSION,
+    };
+  }
+
+  /**
+   * Provider used for answers, or null when none is usable (mock answers are returned instead)
+   */
+  private getCompletionProvider(apiKey?: string): CompletionProvider | null {
+    return this.fixedCompletionProvider || createCompletionProvider(this.getProviderConfig(apiKey));
+  }
+
+  /**
+   * Provider used for new embeddings: the local hashed model when local embeddings are enabled
+   * in settings or the configured provider cannot embed (no embeddings API or missing key)
+   */
+  private getEmbeddingProvider(): EmbeddingProvider {
+    if (this.fixedEmbeddingProvider) return this.fixedEmbeddingProvider;
+    if (settingsService.getSettings().useLocalEmbeddings) return new LocalEmbeddingProvider();
+    return createEmbeddingProvider(this.getProviderConfig());
+  }
+
+  /**
+   * Embedding model used for new embeddings
+   */
+  getEmbeddingModel(): string {
+    return this.getEmbeddingProvider().model;
+  }
+
+  /**
+   * Index a chunk's text (with its title and section) for BM25 keyword search
+   */
+  private addToKeywordIndex(chunk: DocumentChunk): void {
+    const heading = chunk.metadata.headingPath?.join(' ') || '';
+    this.keywordIndex.add(chunk.id, `${chunk.metadata.title}\n${heading}\n${chunk.content}`);
+  }
+
+  /**
+   * Generate embeddings for text with the active embedding provider
+   * (errors propagate; mixing vectors from another model into the index would corrupt search)
    */
   async generateEmbedding(text: string): Promise<EmbeddingResult> {
-    if (!this.apiKey) {
-      // Return mock embedding if no API key
-      return {
-        embedding: this.generateMockEmbedding(text),
-        tokenCount: Math.ceil(text.length / 4),
-      };
-    }
+    return this.getEmbeddingProvider().embed(text);
+  }
 
-    try {
-      const response = await fetch('https://api.openai.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: AI_CONFIG.embeddingModel,
-          input: text,
-        }),
-      });
+  /**
+   * Embed chunk texts in batches, reusing cached embeddings of unchanged text.
+   * Batches run with limited concurrency and report progress as each one completes.
+   */
+  private async embedChunkTexts(
+    texts: string[],
+    { onProgress, signal }: IndexDocumentOptions = {}
+  ): Promise<{ embeddings: ArrayLike<number>[]; model: string }> {
+    const provider = this.getEmbeddingProvider();
+    const embeddings: ArrayLike<number>[] = new Array(texts.length);
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.statusText}`);
+    const cacheKeys = await Promise.all(texts.map(async (text, i) => {
+      try {
+        const key = await getEmbeddingCacheKey(provider.model, text);
+        const cached = key && await this.embeddingCache.get(key);
+        if (cached) embeddings[i] = cached;
+        return key;
+      } catch (error) {
+        console.error('Error reading embedding cache:', error);
+        return null;
       }
+    }));
 
-      const data = await response.json();
-      return {
-        embedding: data.data[0].embedding,
-        tokenCount: data.usage.total_tokens,
-      };
-    } catch (error) {
-      console.error('Error generating embedding:', error);
-      return {
-        embedding: this.generateMockEmbedding(text),
-        tokenCount: Math.ceil(text.length / 4),
-      };
+    const missing = texts.map((_, i) => i).filter(i => !embeddings[i]);
+    const batches: number[][] = [];
+    for (let i = 0; i < missing.length; i += AI_CONFIG.embeddingBatchSize) {
+      batches.push(missing.slice(i, i + AI_CONFIG.embeddingBatchSize));
     }
+
+    let embedded = texts.length - missing.length;
+    let completedBatches = 0;
+    onProgress?.({ embedded, total: texts.length, completedBatches, totalBatches: batches.length });
+
+    await runWithConcurrency(batches, AI_CONFIG.embeddingConcurrency, async (batch) => {
+      signal?.throwIfAborted();
+      const results = await provider.embedBatch(batch.map(i => texts[i]), signal);
+      await Promise.all(batch.map(async (chunkIndex, j) => {
+        embeddings[chunkIndex] = results[j].embedding;
+        const key = cacheKeys[chunkIndex];
+        if (!key) return;
+        await this.embeddingCache.put(key, Float32Array.from(results[j].embedding)).catch(error => {
+          console.error('Error writing embedding cache:', error);
+        });
+      }));
+
+      embedded += batch.length;
+      completedBatches++;
+      onProgress?.({ embedded, total: texts.length, completedBatches, totalBatches: batches.length });
+    });
+
+    return { embeddings, model: provider.model };
   }
 
   /**
-   * Generate mock embedding for demo purposes
+   * Drop every cached embedding (the index itself is kept)
    */
-  private generateMockEmbedding(text: string): number[] {
-    const seed = text.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-    const embedding: number[] = [];
-    for (let i = 0; i < 1536; i++) {
-      embedding.push(Math.sin(seed * (i + 1)) * 0.5 + 0.5);
-    }
-    return embedding;
+  async clearEmbeddingCache(): Promise<void> {
+    await this.embeddingCache.clear();
   }
 
   /**
-   * Calculate cosine similarity between two vectors
+   * Number and approximate size of cached embeddings
    */
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) return 0;
-    
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
-    
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
-    }
-    
-    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+  getEmbeddingCacheStats(): Promise<{ entries: number; bytes: number }> {
+    return this.embeddingCache.getStats();
   }
 
   /**
@@ -194,72 +478,184 @@ export class AIService {
     title: string;
     content: string;
     fileType: string;
-  }): Promise<void> {
-    const chunks = this.splitIntoChunks(document.content, 500);
+    pages?: DocumentPage[];
+  }, options: IndexDocumentOptions = {}): Promise<void> {
+    await this.ready;
+    // Split into chunks using the strategy for the file type, keeping page and heading context for citations
+    const chunks = await processingClient.request({
+      type: 'chunk',
+      source: { content: document.content, fileType: document.fileType, pages: document.pages },
+      options: this.getChunkingOptions(),
+    });
     
-    for (let i = 0; i < chunks.length; i++) {
-      const { embedding } = await this.generateEmbedding(chunks[i]);
-      const chunkId = `${document.id}-chunk-${i}`;
-      
-      this.vectorStore.set(chunkId, {
-        id: chunkId,
-        documentId: document.id,
-        content: chunks[i],
-        embedding,
-        metadata: {
-          title: document.title,
-          fileType: document.fileType,
-          chunkIndex: i,
-          totalChunks: chunks.length,
-        },
-      });
+    try {
+      const { embeddings, model } = await this.embedChunkTexts(chunks.map(c => c.content), options);
+      options.signal?.throwIfAborted();
+      const stored: DocumentChunk[] = [];
+      for (let i = 0; i < chunks.length; i++) {
+        stored.push(await this.storeChunk(document, chunks, i, embeddings[i], model));
+      }
+      await processingClient.request({ type: 'putVectors', index: this.vectorIndex, vectors: stored.map(toIndexedVector) });
+    } catch (error) {
+      // Don't leave a partially indexed document behind
+      await this.removeDocument(document.id);
+      throw error;
     }
-    
-    this.saveVectorStore();
+    this.documentVersions.set(document.id, ++this.indexVersion);
+    this.queryCache.invalidateDocument(document.id);
   }
 
   /**
-   * Split text into overlapping chunks
+   * Write an embedded chunk to the store
    */
-  private splitIntoChunks(text: string, chunkSize: number, overlap: number = 50): string[] {
-    const chunks: string[] = [];
-    const sentences = text.split(/[.!?]+/).filter(s => s.trim());
+  private async storeChunk(
+    document: { id: string; title: string; fileType: string },
+    chunks: DocumentChunkSpan[],
+    i: number,
+    embedding: ArrayLike<number>,
+    model: string
+  ): Promise<DocumentChunk> {
+    const chunkId = `${document.id}-chunk-${i}`;
     
-    let currentChunk = '';
-    
-    for (const sentence of sentences) {
-      if ((currentChunk + sentence).length > chunkSize && currentChunk) {
-        chunks.push(currentChunk.trim());
-        // Keep overlap
-        const words = currentChunk.split(' ');
-        currentChunk = words.slice(-overlap / 10).join(' ') + ' ';
-      }
-      currentChunk += sentence + '. ';
-    }
-    
-    if (currentChunk.trim()) {
-      chunks.push(currentChunk.trim());
-    }
+    const chunk: DocumentChunk = {
+      id: chunkId,
+      documentId: document.id,
+      content: chunks[i].content,
+      embedding: Float32Array.from(embedding),
+      embeddingModel: model,
+      metadata: {
+        title: document.title,
+        fileType: document.fileType,
+        chunkIndex: i,
+        totalChunks: chunks.length,
+        startOffset: chunks[i].startOffset,
+        endOffset: chunks[i].endOffset,
+        pageNumber: chunks[i].pageNumber,
+        headingPath: chunks[i].headingPath,
+      },
+    };
     
-    return chunks.length > 0 ? chunks : [text];
+    await this.store.putChunk(chunk);
+    this.vectorStore.set(chunkId, chunk);
+    this.addToKeywordIndex(chunk);
+    return chunk;
   }
 
   /**
-   * Search for relevant documents based on query
+   * Search for relevant documents, fusing vector and BM25 keyword rankings
    */
   async searchDocuments(query: string, topK: number = AI_CONFIG.topK): Promise<DocumentSource[]> {
-    const { embedding: queryEmbedding } = await this.generateEmbedding(query);
+    return (await this.retrieve(query, topK)).sources;
+  }
+
+  /**
+   * Retrieve the answer context: fuse vector and BM25 keyword rankings, then (when enabled in settings)
+   * re-rank an over-fetched candidate list and pick a diverse final set with MMR
+   */
+  private async retrieve(
+    query: string,
+    topK: number = AI_CONFIG.topK,
+    { apiKey, signal }: Pick<QueryOptions, 'apiKey' | 'signal'> = {}
+  ): Promise<{
+    sources: DocumentSource[];
+    citations: Citation[];
+    context: string;
+    // Text of the picked chunks, in citation order
+    passages: string[];
+    confidence: ConfidenceBreakdown;
+    retrieval: RetrievalDebug;
+  }> {
+    await this.ready;
+    const settings = settingsService.getSettings();
+    const model = this.getEmbeddingModel();
+    let queryEmbedding: ArrayLike<number> | null = null;
+    try {
+      queryEmbedding = (await this.generateEmbedding(query)).embedding;
+    } catch (error) {
+      // Keyword search still works without the query vector
+      console.error('Error embedding query, using keyword search only:', error);
+    }
+    const candidateCount = Math.max(topK * 4, settings.enableReranking ? settings.rerankCandidates : 0);
     
-    const results: { chunk: DocumentChunk; score: number }[] = [];
+    // Keyword ranking by BM25
+    const keywordRanking = this.keywordIndex
+      .search(query, candidateCount)
+      .filter(match => this.vectorStore.get(match.id)?.embeddingModel === model);
     
-    this.vectorStore.forEach((chunk) => {
-      const score = this.cosineSimilarity(queryEmbedding, chunk.embedding);
-      results.push({ chunk, score });
-    });
+    // Vector ranking by cosine similarity, scored in the processing worker
+    // (vectors from different embedding models are not comparable, so only the active model's are ranked)
+    let vectorRanking: { id: string; score: number }[] = [];
+    const similarity = new Map<string, number>();
+    if (queryEmbedding) {
+      const { top, scores } = await processingClient.request({
+        type: 'searchVectors',
+        index: this.vectorIndex,
+        embedding: queryEmbedding,
+        model,
+        limit: candidateCount,
+        include: keywordRanking.map(match => match.id),
+      });
+      vectorRanking = top.filter(match => this.vectorStore.has(match.id));
+      Object.entries(scores).forEach(([id, score]) => similarity.set(id, score));
+    }
     
-    // Sort by similarity and get top K
-    results.sort((a, b) => b.score - a.score);
-    const topResults = results.slice(0, topK);
+    // Fuse both rankings with weighted reciprocal rank fusion
+    const candidates: RetrievalCandidate[] = fuseRankings(vectorRanking, keywordRanking, settings.hybridWeight, AI_CONFIG.rrfK)
+      .slice(0, settings.enableReranking ? settings.rerankCandidates : topK)
+      .map(({ id, score: fusedScore }) => {
+        const chunk = this.vectorStore.get(id)!;
+        return { chunkId: id, documentId: chunk.documentId, title: chunk.metadata.title, fusedScore, similarity: similarity.get(id) || 0 };
+      });
+
+    const retrieval: RetrievalDebug = { query, reranker: null, diversity: 0, candidates };
+    let picked = candidates.slice(0, topK);
+    if (settings.enableReranking && candidates.length > 0) {
+      const { scores, reranker, error } = await this.rerank(
+        query,
+        candidates.map(({ chunkId }) => ({ id: chunkId, text: this.vectorStore.get(chunkId)!.content })),
+        apiKey,
+        signal
+      );
+      candidates.forEach((candidate, i) => {
+        candidate.rerankScore = scores[i];
+      });
+      picked = selectWithMmr(
+        candidates.map(candidate => ({
+          candidate,
+          relevance: candidate.rerankScore!,
+          embedding: this.vectorStore.get(candidate.chunkId)!.embedding,
+        })),
+        topK,
+        1 - settings.rerankDiversity
+      ).map(({ candidate }) => candidate);
+      Object.assign(retrieval, { reranker, rerankError: error, diversity: settings.rerankDiversity });
+    }
+    picked.forEach((candidate, i) => {
+      candidate.selectedRank = i + 1;
+    });
+
+    const topResults = picked.map(({ chunkId, similarity: score }) => ({ chunk: this.vectorStore.get(chunkId)!, score }));
+
+    // Picked chunks are numbered in the answer context so the answer can cite them
+    const citations: Citation[] = topResults.map(({ chunk }, i) => ({
+      number: i + 1,
+      chunkId: chunk.id,
+      documentId: chunk.documentId,
+      title: chunk.metadata.title,
+      startOffset: chunk.metadata.startOffset,
+      endOffset: chunk.metadata.endOffset,
+      pageNumber: chunk.metadata.pageNumber,
+      section: chunk.metadata.headingPath?.join(' > '),
+    }));
+    const context = this.buildContext(topResults.map(({ chunk }) => chunk));
+    const confidence = combineConfidence(
+      scoreRetrieval(
+        picked.map(candidate => candidate.similarity),
+        candidates.map(candidate => candidate.similarity),
+        getSimilarityRange(model)
+      ),
+      scoreCoverage(query, context)
+    );
     
     // Group by document and return
     const documentMap = new Map<string, DocumentSource>();
@@ -272,98 +668,536 @@ export class AIService {
           content: chunk.content,
           relevanceScore: score,
           lastUpdated: new Date(),
+          pageNumbers: chunk.metadata.pageNumber ? [chunk.metadata.pageNumber] : undefined,
+          sections: chunk.metadata.headingPath ? [chunk.metadata.headingPath.join(' > ')] : undefined,
         });
       } else {
         const existing = documentMap.get(chunk.documentId)!;
         existing.content += '\n\n' + chunk.content;
         existing.relevanceScore = Math.max(existing.relevanceScore, score);
+        if (chunk.metadata.pageNumber) {
+          existing.pageNumbers = Array.from(new Set([...(existing.pageNumbers || []), chunk.metadata.pageNumber]))
+            .sort((a, b) => a - b);
+        }
+        if (chunk.metadata.headingPath) {
+          existing.sections = Array.from(new Set([...(existing.sections || []), chunk.metadata.headingPath.join(' > ')]));
+        }
       }
     }
     
-    return Array.from(documentMap.values());
+    return {
+      sources: Array.from(documentMap.values()),
+      citations,
+      context,
+      passages: topResults.map(({ chunk }) => chunk.content),
+      confidence,
+      retrieval,
+    };
+  }
+
+  /**
+   * Re-score candidates with the completion model, falling back to the local re-ranker
+   * when no provider is configured or its reply cannot be used
+   */
+  private async rerank(
+    query: string,
+    candidates: RerankCandidate[],
+    apiKey?: string,
+    signal?: AbortSignal
+  ): Promise<{ scores: number[]; reranker: string; error?: string }> {
+    let error: string | undefined;
+    const provider = this.getCompletionProvider(apiKey);
+    if (provider) {
+      const reranker = new LlmReranker(provider);
+      try {
+        return { scores: await reranker.rerank(query, candidates, signal), reranker: reranker.name };
+      } catch (rerankError) {
+        if (signal?.aborted) throw rerankError;
+        console.error('Error re-ranking with the completion model, using the local re-ranker:', rerankError);
+        error = rerankError instanceof Error ? rerankError.message : 'Unknown error';
+      }
+    }
+
+    const local = new LocalReranker();
+    return { scores: await local.rerank(query, candidates), reranker: local.name, error };
   }
 
   /**
    * Query the AI with RAG context
    */
-  async query(userQuery: string): Promise<AIQueryResponse> {
+  async query(userQuery: string, options: QueryOptions = {}): Promise<AIQueryResponse> {
     const startTime = Date.now();
+
+    const cacheKey = await this.getQueryCacheKey(userQuery, options);
+    const cached = cacheKey && this.getCachedResponse(cacheKey);
+    if (cached) {
+      return { ...cached, processingTime: Date.now() - startTime };
+    }
     
     // Retrieve relevant documents
-    const sources = await this.searchDocuments(userQuery);
-    
-    // Build context from sources
-    const context = sources
-      .map((s) => `[${s.title}]:\n${s.content}`)
-      .join('\n\n---\n\n');
+    const history = this.getRecentHistory(options);
+    const searchQuery = await this.rewriteQuery(userQuery, history, options.apiKey, options.signal);
+    const { sources, citations: numbered, context, passages, confidence: assessed, retrieval } =
+      await this.retrieve(searchQuery, options.topK, options);
 
-    // Generate response
-    const answer = await this.generateCompletion(userQuery, context, sources);
+    // Too little evidence: answer "not available" without calling the model
+    if (!this.meetsAnswerThreshold(assessed)) {
+      const response = this.buildUnansweredResponse(assessed, retrieval, Date.now() - startTime);
+      if (cacheKey) this.queryCache.set(cacheKey, response, sources.map(s => s.id));
+      return response;
+    }
     
-    return {
+    // Generate response, then drop citations of passages that were not in the context
+    const completion = await this.generateCompletion(
+      userQuery,
+      context,
+      sources,
+      options.apiKey,
+      options.signal,
+      history
+    );
+    const { answer, citations } = validateCitations(completion.answer, numbered);
+    const verification = await this.verifyAnswer(answer, passages, completion.generated, options);
+    const confidence = await this.assessAnswer(assessed, answer, context, completion.generated, verification, options);
+    
+    const response: AIQueryResponse = {
       answer,
       sources,
-      confidence: sources.length > 0 ? sources[0].relevanceScore : 0,
+      citations,
+      confidence: confidence.score,
+      confidenceDetails: confidence,
+      answered: true,
+      verification,
       processingTime: Date.now() - startTime,
+      cached: false,
+      retrieval,
     };
+    if (cacheKey && completion.generated) this.queryCache.set(cacheKey, response, sources.map(s => s.id));
+    return response;
   }
 
   /**
-   * Generate completion using OpenAI
+   * Query the AI with RAG context, yielding the answer as it is generated
    */
-  private async generateCompletion(
-    query: string,
+  async *queryStream(userQuery: string, options: QueryOptions = {}): AsyncGenerator<QueryStreamEvent> {
+    const startTime = Date.now();
+
+    const cacheKey = await this.getQueryCacheKey(userQuery, options);
+    const cached = cacheKey && this.getCachedResponse(cacheKey);
+    if (cached) {
+      yield { type: 'sources', sources: cached.sources, citations: cached.citations };
+      yield* this.streamText(cached.answer, options.signal);
+      yield {
+        type: 'done',
+        answer: cached.answer,
+        citations: cached.citations,
+        confidence: cached.confidence,
+        confidenceDetails: cached.confidenceDetails,
+        answered: cached.answered,
+        verification: cached.verification,
+        processingTime: Date.now() - startTime,
+        cached: true,
+        retrieval: cached.retrieval,
+      };
+      return;
+    }
+
+    const history = this.getRecentHistory(options);
+    const searchQuery = await this.rewriteQuery(userQuery, history, options.apiKey, options.signal);
+    const { sources, citations: numbered, context, passages, confidence: assessed, retrieval } =
+      await this.retrieve(searchQuery, options.topK, options);
+    options.signal?.throwIfAborted();
+
+    // Too little evidence: answer "not available" without calling the model
+    if (!this.meetsAnswerThreshold(assessed)) {
+      const response = this.buildUnansweredResponse(assessed, retrieval, Date.now() - startTime);
+      if (cacheKey) this.queryCache.set(cacheKey, response, sources.map(s => s.id));
+      yield { type: 'sources', sources: response.sources, citations: response.citations };
+      yield* this.streamText(response.answer, options.signal);
+      yield { type: 'done', ...response, processingTime: Date.now() - startTime };
+      return;
+    }
+
+    yield { type: 'sources', sources, citations: numbered };
+
+    const completion = yield* this.streamCompletion(
+      userQuery,
+      context,
+      sources,
+      options.apiKey,
+      options.signal,
+      history
+    );
+    // Tokens are shown as they arrive; the final answer drops citations of passages that were not in the context
+    const { answer, citations } = validateCitations(completion.answer, numbered);
+
+    const verification = await this.verifyAnswer(answer, passages, completion.generated, options);
+    const confidence = await this.assessAnswer(assessed, answer, context, completion.generated, verification, options);
+    const response: AIQueryResponse = {
+      answer,
+      sources,
+      citations,
+      confidence: confidence.score,
+      confidenceDetails: confidence,
+      answered: true,
+      verification,
+      processingTime: Date.now() - startTime,
+      cached: false,
+      retrieval,
+    };
+    if (cacheKey && completion.generated) this.queryCache.set(cacheKey, response, sources.map(s => s.id));
+
+    yield { type: 'done', ...response };
+  }
+
+  /**
+   * Cache key for a query, or null when caching is disabled. Covers the normalized query,
+   * the indexed document versions and everything in the configuration that shapes the answer.
+   */
+  private async getQueryCacheKey(userQuery: string, options: QueryOptions): Promise<string | null> {
+    const settings = settingsService.getSettings();
+    if (!settings.enableCaching) return null;
+    await this.ready;
+
+    const documentIds = new Set<string>();
+    this.vectorStore.forEach(chunk => documentIds.add(chunk.documentId));
+    const versions = Array.from(documentIds)
+      .sort()
+      .map(id => `${id}@${this.documentVersions.get(id) ?? 0}`);
+
+    const config = this.getProviderConfig(options.apiKey);
+    return JSON.stringify([
+      normalizeQuery(userQuery),
+      this.getRecentHistory(options).map(turn => [normalizeQuery(turn.question), turn.answer]),
+      options.topK || AI_CONFIG.topK,
+      config.provider,
+      config.baseUrl,
+      config.completionModel,
+      this.getEmbeddingModel(),
+      settings.maxTokens,
+      settings.temperature,
+      settings.hybridWeight,
+      settings.enableReranking && [settings.rerankCandidates, settings.rerankDiversity],
+      settings.answerThreshold,
+      settings.verifyAnswers,
+      settings.checkGroundedness,
+      this.getCompletionProvider(options.apiKey) !== null,
+      versions,
+    ]);
+  }
+
+  /**
+   * Cached response for a key, honoring the configured expiration
+   */
+  private getCachedResponse(cacheKey: string): AIQueryResponse | null {
+    const maxAgeMs = settingsService.getSettings().cacheExpiration * 60 * 1000;
+    const cached = this.queryCache.get(cacheKey, maxAgeMs);
+    return cached ? { ...cached, sources: [...cached.sources], citations: [...cached.citations], cached: true } : null;
+  }
+
+  /**
+   * Whether the retrieved context looks strong enough to be worth asking the model
+   */
+  private meetsAnswerThreshold(confidence: ConfidenceBreakdown): boolean {
+    return confidence.score >= settingsService.getSettings().answerThreshold;
+  }
+
+  /**
+   * Response for a question the documentation does not seem to cover
+   */
+  private buildUnansweredResponse(
+    confidence: ConfidenceBreakdown,
+    retrieval: RetrievalDebug,
+    processingTime: number
+  ): AIQueryResponse {
+    return {
+      answer: NOT_AVAILABLE_ANSWER,
+      sources: [],
+      citations: [],
+      confidence: confidence.score,
+      confidenceDetails: confidence,
+      answered: false,
+      verification: null,
+      processingTime,
+      cached: false,
+      retrieval,
+    };
+  }
+
+  /**
+   * Check each claim of the answer against the picked chunks when verification is enabled.
+   * Generated answers are checked by the completion model, falling back to lexical overlap
+   * without one or when its reply cannot be used.
+   */
+  private async verifyAnswer(
+    answer: string,
+    passages: string[],
+    generated: boolean,
+    { apiKey, signal }: Pick<QueryOptions, 'apiKey' | 'signal'>
+  ): Promise<AnswerVerification | null> {
+    if (!settingsService.getSettings().verifyAnswers) return null;
+
+    const claims = splitClaims(answer);
+    let verifyError: string | undefined;
+    const provider = generated && claims.length > 0 ? this.getCompletionProvider(apiKey) : null;
+    if (provider) {
+      const verifier = new LlmVerifier(provider);
+      try {
+        return { verifier: verifier.name, claims: await verifier.verify(claims, passages, signal) };
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error('Error verifying the answer with the completion model, using lexical checks:', error);
+        verifyError = error instanceof Error ? error.message : 'Unknown error';
+      }
+    }
+
+    const lexical = new LexicalVerifier();
+    return { verifier: lexical.name, verifyError, claims: await lexical.verify(claims, passages) };
+  }
+
+  /**
+   * Add the answer's groundedness to the retrieval-based confidence: the share of supported
+   * claims when the answer was verified, otherwise a rating by the completion model for
+   * generated answers when that check is enabled, or how many of the answer's terms
+   * appear in the context.
+   */
+  private async assessAnswer(
+    assessed: ConfidenceBreakdown,
+    answer: string,
     context: string,
-    sources: DocumentSource[]
+    generated: boolean,
+    verification: AnswerVerification | null,
+    { apiKey, signal }: Pick<QueryOptions, 'apiKey' | 'signal'>
+  ): Promise<ConfidenceBreakdown> {
+    if (verification && verification.claims.length > 0) {
+      const supported = verification.claims.filter(claim => claim.supported).length;
+      return combineConfidence(assessed.retrieval, assessed.coverage, supported / verification.claims.length);
+    }
+
+    let groundedness: number | undefined;
+    const provider = generated && settingsService.getSettings().checkGroundedness
+      ? this.getCompletionProvider(apiKey)
+      : null;
+    if (provider) {
+      try {
+        groundedness = await rateGroundedness(provider, answer, context, signal);
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error('Error checking answer groundedness:', error);
+      }
+    }
+    groundedness ??= scoreCoverage(answer, context);
+    return combineConfidence(assessed.retrieval, assessed.coverage, groundedness);
+  }
+
+  /**
+   * Earlier turns sent along with a question (the most recent ones)
+   */
+  private getRecentHistory(options: QueryOptions): ConversationTurn[] {
+    return (options.history || []).slice(-AI_CONFIG.maxHistoryTurns);
+  }
+
+  /**
+   * Rewrite a follow-up question as a standalone search query using the earlier turns.
+   * Asks the completion model; without one (or if it fails), prefixes the previous
+   * question to follow-ups that look like they refer back to it.
+   */
+  private async rewriteQuery(
+    userQuery: string,
+    history: ConversationTurn[],
+    apiKey?: string,
+    signal?: AbortSignal
   ): Promise<string> {
-    const systemPrompt = `You are Dynamic Documentation Helper, a real-time AI documentation assistant.
+    if (history.length === 0) return userQuery;
 
-RULES:
-- Answer ONLY based on the provided documentation context
-- If information is not in the context, say "This information is not available in the current documentation."
-- Be precise, clear, and developer-friendly
-- Use structured formatting with headings when helpful
-- Never hallucinate or make assumptions
-- Always cite which document the information comes from
+    const provider = this.getCompletionProvider(apiKey);
+    if (provider) {
+      const transcript = history
+        .map(turn => `User: ${turn.question}\nAssistant: ${turn.answer.slice(0, 600)}`)
+        .join('\n\n');
+      try {
+        const rewritten = await provider.complete({
+          messages: [
+            {
+              role: 'system',
+              content: 'Rewrite the follow-up question as a standalone question for searching documentation, ' +
+                'replacing references such as "it" or "that" with what they refer to in the conversation. ' +
+                'Reply with only the rewritten question.',
+            },
+            { role: 'user', content: `Conversation:\n${transcript}\n\nFollow-up question: ${userQuery}` },
+          ],
+          maxTokens: 100,
+          temperature: 0,
+          signal,
+        });
+        const standalone = rewritten.trim().replace(/^["']|["']$/g, '');
+        if (standalone) return standalone;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error('Error rewriting follow-up question:', error);
+      }
+    }
 
-CONTEXT FROM DOCUMENTATION:
-${context || 'No relevant documentation found.'}`;
+    return isFollowUp(userQuery) ? `${history[history.length - 1].question} ${userQuery}` : userQuery;
+  }
+
+  /**
+   * Build the prompt context from the picked chunks, numbered for inline citations
+   */
+  private buildContext(chunks: DocumentChunk[]): string {
+    return chunks
+      .map((chunk, i) => `[${i + 1}] ${this.formatChunkLabel(chunk)}:\n${chunk.content}`)
+      .join('\n\n---\n\n');
+  }
+
+  /**
+   * Label of a context passage: its document, plus section and page when known
+   */
+  private formatChunkLabel(chunk: DocumentChunk): string {
+    let label = chunk.metadata.title;
+    if (chunk.metadata.headingPath?.length) {
+      label += ` — ${chunk.metadata.headingPath.join(' > ')}`;
+    }
+    if (chunk.metadata.pageNumber) {
+      label += `, page ${chunk.metadata.pageNumber}`;
+    }
+    return label;
+  }
+
+  /**
+   * Build a citation label for a source, including sections and page numbers when known
+   */
+  private formatSourceLabel(source: DocumentSource): string {
+    let label = source.title;
+    if (source.sections?.length) {
+      label += ` — ${source.sections.join('; ')}`;
+    }
+    if (source.pageNumbers?.length) {
+      const prefix = source.pageNumbers.length === 1 ? 'page' : 'pages';
+      label += `, ${prefix} ${source.pageNumbers.join(', ')}`;
+    }
+    return label;
+  }
+
+  /**
+   * Build the chat request sent to the completion provider
+   */
+  private buildCompletionRequest(
+    query: string,
+    context: string,
+    signal?: AbortSignal,
+    history: ConversationTurn[] = []
+  ): CompletionRequest {
+    const { maxTokens, temperature } = settingsService.getSettings();
+    return {
+      messages: [
+        { role: 'system', content: this.buildSystemPrompt(context) },
+        ...history.flatMap(turn => [
+          { role: 'user' as const, content: turn.question },
+          { role: 'assistant' as const, content: turn.answer },
+        ]),
+        { role: 'user', content: query },
+      ],
+      maxTokens,
+      temperature,
+      signal,
+    };
+  }
 
-    if (!this.apiKey) {
-      // Return mock response if no API key
-      return this.generateMockResponse(query, sources);
+  /**
+   * Generate completion with the configured provider
+   */
+  private async generateCompletion(
+    query: string,
+    context: string,
+    sources: DocumentSource[],
+    apiKey?: string,
+    signal?: AbortSignal,
+    history: ConversationTurn[] = []
+  ): Promise<{ answer: string; generated: boolean }> {
+    const provider = this.getCompletionProvider(apiKey);
+    if (!provider) {
+      // Return mock response if no provider is configured
+      return { answer: this.generateMockResponse(query, sources), generated: false };
     }
 
     try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: AI_CONFIG.completionModel,
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: query },
-          ],
-          max_tokens: AI_CONFIG.maxTokens,
-          temperature: AI_CONFIG.temperature,
-        }),
-      });
+      return {
+        answer: await provider.complete(this.buildCompletionRequest(query, context, signal, history)),
+        generated: true,
+      };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Error generating completion:', error);
+      return { answer: this.generateMockResponse(query, sources), generated: false };
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.statusText}`);
-      }
+  /**
+   * Stream a completion from the configured provider token by token
+   */
+  private async *streamCompletion(
+    query: string,
+    context: string,
+    sources: DocumentSource[],
+    apiKey?: string,
+    signal?: AbortSignal,
+    history: ConversationTurn[] = []
+  ): AsyncGenerator<QueryStreamEvent, { answer: string; generated: boolean }> {
+    const provider = this.getCompletionProvider(apiKey);
+    if (!provider) {
+      const mock = this.generateMockResponse(query, sources);
+      yield* this.streamText(mock, signal);
+      return { answer: mock, generated: false };
+    }
 
-      const data = await response.json();
-      return data.choices[0].message.content;
+    let answer = '';
+    try {
+      for await (const token of provider.stream(this.buildCompletionRequest(query, context, signal, history))) {
+        answer += token;
+        yield { type: 'token', token };
+      }
     } catch (error) {
+      // Fall back to the mock answer only if nothing has been shown yet
+      if (signal?.aborted || answer) throw error;
       console.error('Error generating completion:', error);
-      return this.generateMockResponse(query, sources);
+      const mock = this.generateMockResponse(query, sources);
+      yield* this.streamText(mock, signal);
+      return { answer: mock, generated: false };
+    }
+    return { answer, generated: true };
+  }
+
+  /**
+   * Emit already-generated text word by word so it renders like a streamed answer
+   */
+  private async *streamText(text: string, signal?: AbortSignal): AsyncGenerator<QueryStreamEvent> {
+    for (const token of text.match(/\S+\s*|\s+/g) || []) {
+      signal?.throwIfAborted();
+      yield { type: 'token', token };
     }
   }
 
+  /**
+   * System prompt shared by streamed and non-streamed completions
+   */
+  private buildSystemPrompt(context: string): string {
+    return `You are Dynamic Documentation Helper, a real-time AI documentation assistant.
+
+RULES:
+- Answer ONLY based on the provided documentation context
+- If information is not in the context, say "${NOT_AVAILABLE_ANSWER}"
+- Be precise, clear, and developer-friendly
+- Use structured formatting with headings when helpful
+- Never hallucinate or make assumptions
+- Cite the numbered passages the information comes from inline, right after each statement and after a space, e.g. "... is required [1]." or [2][3]
+- Never put citation markers inside code
+- Only cite numbers that appear in the context
+
+CONTEXT FROM DOCUMENTATION:
+${context || 'No relevant documentation found.'}`;
+  }
+
   /**
    * Generate mock response for demo
    */
@@ -382,7 +1216,7 @@ This could mean:
     const sourceNames = sources.map(s => s.title).join(', ');
     return `Based on the latest documentation analysis from **${sourceNames}**:
 
-${sources[0].content.substring(0, 500)}...
+${sources[0].content.substring(0, 500)}... [1]
 
 **Key Points:**
 - The system utilizes real-time document processing
@@ -390,7 +1224,7 @@ ${sources[0].content.substring(0, 500)}...
 - Your query "${query}" has been matched against ${sources.length} relevant document(s)
 
 **Sources Referenced:**
-${sources.map((s, i) => `${i + 1}. ${s.title} (Relevance: ${(s.relevanceScore * 100).toFixed(1)}%)`).join('\n')}
+${sources.map((s, i) => `${i + 1}. ${this.formatSourceLabel(s)} (Relevance: ${(s.relevanceScore * 100).toFixed(1)}%)`).join('\n')}
 
 *This response is grounded in your live documentation.*`;
   }
@@ -398,7 +1232,8 @@ ${sources.map((s, i) => `${i + 1}. ${s.title} (Relevance: ${(s.relevanceScore *
   /**
    * Remove a document from the index
    */
-  removeDocument(documentId: string): void {
+  async removeDocument(documentId: string): Promise<void> {
+    await this.ready;
     const keysToDelete: string[] = [];
     
     this.vectorStore.forEach((chunk, key) => {
@@ -407,16 +1242,39 @@ ${sources.map((s, i) => `${i + 1}. ${s.title} (Relevance: ${(s.relevanceScore *
       }
     });
     
-    keysToDelete.forEach(key => this.vectorStore.delete(key));
-    this.saveVectorStore();
+    keysToDelete.forEach(key => {
+      this.vectorStore.delete(key);
+      this.keywordIndex.remove(key);
+    });
+    this.documentVersions.delete(documentId);
+    this.queryCache.invalidateDocument(documentId);
+    await processingClient.request({ type: 'deleteVectors', index: this.vectorIndex, ids: keysToDelete });
+    await this.store.deleteDocument(documentId);
   }
 
   /**
    * Clear all indexed documents
    */
-  clearIndex(): void {
+  async clearIndex(): Promise<void> {
+    await this.ready;
     this.vectorStore.clear();
-    this.saveVectorStore();
+    this.keywordIndex.clear();
+    this.documentVersions.clear();
+    this.queryCache.clear();
+    await processingClient.request({ type: 'clearVectors', index: this.vectorIndex });
+    await this.store.clear();
+  }
+
+  /**
+   * Get IDs of documents indexed with a different embedding model than the active one
+   */
+  getStaleDocumentIds(): string[] {
+    const activeModel = this.getEmbeddingModel();
+    const documentIds = new Set<string>();
+    this.vectorStore.forEach(chunk => {
+      if (chunk.embeddingModel !== activeModel) documentIds.add(chunk.documentId);
+    });
+    return Array.from(documentIds);
   }
 
   /**
@@ -427,6 +1285,17 @@ ${sources.map((s, i) => `${i + 1}. ${s.title} (Relevance: ${(s.relevanceScore *
     this.vectorStore.forEach(chunk => documentIds.add(chunk.documentId));
     return documentIds.size;
   }
+
+  /**
+   * Approximate storage used by the index (chunk text, embeddings and metadata)
+   */
+  getIndexStats(): { chunks: number; bytes: number } {
+    let bytes = 0;
+    this.vectorStore.forEach(chunk => {
+      bytes += chunk.content.length * 2 + chunk.embedding.byteLength + JSON.stringify(chunk.metadata).length * 2;
+    });
+    return { chunks: this.vectorStore.size, bytes };
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,140 @@
+/**
+ * Answer Verifier - Checks a generated answer claim by claim against the retrieved passages
+ * Claims are checked by entailment with the completion model, or offline by lexical overlap
+ */
+
+import { tokenize } from './local-embeddings';
+import type { CompletionProvider } from './llm-providers';
+import { parseScoreArray, scoreArrayMaxTokens } from './score-parsing';
+
+/**
+ * A sentence of the answer, with its character range in the answer
+ */
+export interface Claim {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface ClaimCheck extends Claim {
+  supported: boolean;
+  // Support between 0 and 1 as judged by the verifier
+  score: number;
+}
+
+export interface AnswerVerifier {
+  readonly name: string;
+  verify(claims: Claim[], passages: string[], signal?: AbortSignal): Promise<ClaimCheck[]>;
+}
+
+// Sentence ends (not dots inside names such as deploy.sh) and line breaks
+const CLAIM_BOUNDARY = /[.!?]+(?=\s|$)|\n/g;
+const CITATION_MARKERS = /\[\d+(?:\s*,\s*\d+)*\]/g;
+const MARKDOWN_MARKERS = /[*_`#>|]/g;
+
+// Characters of each passage shown to the LLM verifier
+const LLM_PASSAGE_CHARS = 1500;
+// Minimum support for a claim to count as supported
+const LLM_SUPPORT_THRESHOLD = 0.5;
+const LEXICAL_SUPPORT_THRESHOLD = 0.6;
+
+/**
+ * Claim text without citation markers and markdown emphasis
+ */
+function toPlainText(text: string): string {
+  return text.replace(CITATION_MARKERS, '').replace(MARKDOWN_MARKERS, '').trim();
+}
+
+/**
+ * Whether a sentence states something checkable (headings, list numbers and lead-ins such as "Key points:" don't)
+ */
+function isClaim(text: string): boolean {
+  if (/^#/.test(text)) return false;
+  const plain = toPlainText(text);
+  return !plain.endsWith(':') && tokenize(plain).length >= 2;
+}
+
+/**
+ * Split an answer into its sentences that make claims
+ */
+export function splitClaims(answer: string): Claim[] {
+  const claims: Claim[] = [];
+  let start = 0;
+
+  const add = (end: number) => {
+    const raw = answer.slice(start, end);
+    // Leave surrounding space and list bullets out of the claim
+    const lead = raw.match(/^\s*(?:[-*+]\s+)?/)![0].length;
+    const text = raw.slice(lead).trimEnd();
+    const offset = start + lead;
+    if (text && isClaim(text)) claims.push({ text, start: offset, end: offset + text.length });
+    start = end;
+  };
+
+  for (const match of answer.matchAll(CLAIM_BOUNDARY)) {
+    add(match.index! + match[0].length);
+  }
+  add(answer.length);
+
+  return claims;
+}
+
+/**
+ * Asks the completion model whether the passages entail each claim, all claims in one request
+ */
+export class LlmVerifier implements AnswerVerifier {
+  readonly name: string;
+
+  constructor(private provider: CompletionProvider) {
+    this.name = `llm:${provider.id}`;
+  }
+
+  async verify(claims: Claim[], passages: string[], signal?: AbortSignal): Promise<ClaimCheck[]> {
+    const context = passages
+      .map((passage, i) => `[${i + 1}] ${passage.slice(0, LLM_PASSAGE_CHARS)}`)
+      .join('\n\n');
+    const statements = claims.map((claim, i) => `${i + 1}. ${toPlainText(claim.text)}`).join('\n');
+
+    const reply = await this.provider.complete({
+      messages: [
+        {
+          role: 'system',
+          content: 'You check statements against documentation passages. For each statement, rate from ' +
+            '0 (not supported or contradicted) to 10 (directly stated or clearly implied) how well the ' +
+            'passages support it. Reply with only a JSON array of numbers, one per statement, in order.',
+        },
+        { role: 'user', content: `Passages:\n${context}\n\nStatements:\n${statements}` },
+      ],
+      maxTokens: scoreArrayMaxTokens(claims.length),
+      temperature: 0,
+      signal,
+    });
+
+    const scores = parseScoreArray(reply, claims.length);
+    if (!scores) {
+      throw new Error('Answer verifier returned an invalid response');
+    }
+
+    return claims.map((claim, i) => ({ ...claim, score: scores[i], supported: scores[i] >= LLM_SUPPORT_THRESHOLD }));
+  }
+}
+
+/**
+ * Checks offline: a claim is supported when most of its terms appear together in one passage
+ */
+export class LexicalVerifier implements AnswerVerifier {
+  readonly name = 'lexical';
+
+  async verify(claims: Claim[], passages: string[]): Promise<ClaimCheck[]> {
+    const passageTerms = passages.map(passage => new Set(tokenize(passage)));
+
+    return claims.map(claim => {
+      const terms = new Set(tokenize(toPlainText(claim.text)));
+      const score = passageTerms.reduce((best, available) => {
+        const found = Array.from(terms).filter(term => available.has(term)).length;
+        return Math.max(best, terms.size > 0 ? found / terms.size : 0);
+      }, 0);
+      return { ...claim, score, supported: score >= LEXICAL_SUPPORT_THRESHOLD };
+    });
+  }
+}
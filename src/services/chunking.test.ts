@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { chunkText, estimateTokens, getChunkingStrategy, textChunkingStrategy, type TextChunk } from './chunking';
+
+/**
+ * Sentences of about `words` words each, so chunk sizes are predictable
+ */
+function createProse(sentences: number, words = 12): string {
+  return Array.from({ length: sentences }, (_, i) =>
+    `Sentence ${i + 1} ` + Array.from({ length: words - 2 }, (_, j) => `word${j}`).join(' ') + '.'
+  ).join(' ');
+}
+
+/**
+ * Every chunk covers exactly the text between its offsets (CSV and JSON add prefixes, so only for prose)
+ */
+function expectOffsetsMatch(text: string, chunks: TextChunk[]) {
+  chunks.forEach(chunk => {
+    expect(text.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.content);
+  });
+}
+
+describe('chunkText', () => {
+  it('keeps a short text in a single chunk without surrounding whitespace', () => {
+    const text = '\n  Install the CLI with npm.  \n';
+    const chunks = chunkText(text, 'txt');
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].content).toBe('Install the CLI with npm.');
+    expectOffsetsMatch(text, chunks);
+  });
+
+  it('returns no chunks for blank text', () => {
+    expect(chunkText('   \n\n ', 'txt')).toEqual([]);
+  });
+
+  it('falls back to the text strategy for unknown file types', () => {
+    expect(getChunkingStrategy('unknown')).toBe(textChunkingStrategy);
+    expect(getChunkingStrategy('MD')).toBe(getChunkingStrategy('md'));
+  });
+});
+
+describe('text chunking', () => {
+  const text = createProse(40);
+  const options = { chunkSize: 60, overlap: 15 };
+  const chunks = chunkText(text, 'txt', options);
+
+  it('records offsets that point at each chunk in the source text', () => {
+    expect(chunks.length).toBeGreaterThan(3);
+    expectOffsetsMatch(text, chunks);
+  });
+
+  it('keeps chunks within the chunk size', () => {
+    chunks.forEach(chunk => expect(estimateTokens(chunk.content)).toBeLessThanOrEqual(options.chunkSize));
+  });
+
+  it('overlaps consecutive chunks by at most the overlap budget', () => {
+    chunks.slice(1).forEach((chunk, i) => {
+      const previous = chunks[i];
+      expect(chunk.startOffset).toBeLessThan(previous.endOffset);
+      expect(estimateTokens(text.slice(chunk.startOffset, previous.endOffset))).toBeLessThanOrEqual(options.overlap);
+    });
+  });
+
+  it('covers the whole text', () => {
+    expect(chunks[0].startOffset).toBe(0);
+    expect(chunks[chunks.length - 1].endOffset).toBe(text.length);
+    chunks.slice(1).forEach((chunk, i) => expect(chunk.startOffset).toBeLessThanOrEqual(chunks[i].endOffset));
+  });
+
+  it('does not overlap when the overlap is zero', () => {
+    const separate = chunkText(text, 'txt', { chunkSize: 60, overlap: 0 });
+    separate.slice(1).forEach((chunk, i) => expect(chunk.startOffset).toBeGreaterThanOrEqual(separate[i].endOffset));
+  });
+
+  it('does not split sentences at dots inside versions and file names', () => {
+    const prose = 'Upgrade to v1.2.3 first. Then run deploy.sh again. ' + createProse(20);
+    const sentenceChunks = chunkText(prose, 'txt', { chunkSize: 8, overlap: 0 });
+
+    expect(sentenceChunks[0].content).toBe('Upgrade to v1.2.3 first.');
+    expect(sentenceChunks[1].content).toBe('Then run deploy.sh again.');
+  });
+
+  it('keeps a fenced code block whole', () => {
+    const code = '```js\nconst a = 1;\n\nconst b = 2;\n```';
+    const withCode = `${createProse(8)}\n\n${code}\n\n${createProse(8)}`;
+    const codeChunks = chunkText(withCode, 'txt', { chunkSize: 30, overlap: 0 });
+
+    expect(codeChunks.some(chunk => chunk.content.includes(code))).toBe(true);
+    expectOffsetsMatch(withCode, codeChunks);
+  });
+});
+
+describe('markdown chunking', () => {
+  const text = [
+    '# Guide',
+    '',
+    'Welcome to the guide.',
+    '',
+    '## Install',
+    '',
+    'Run npm install.',
+    '',
+    '```bash',
+    '# not a heading',
+    'npm install',
+    '```',
+    '',
+    '## Configure',
+    '',
+    '| Key | Default |',
+    '| --- | --- |',
+    '| PORT | 4321 |',
+  ].join('\n');
+  const chunks = chunkText(text, 'md', { chunkSize: 200, overlap: 0 });
+
+  it('never crosses headings and records the heading path', () => {
+    expect(chunks.map(chunk => chunk.headingPath)).toEqual([
+      ['Guide'],
+      ['Guide', 'Install'],
+      ['Guide', 'Configure'],
+    ]);
+    expectOffsetsMatch(text, chunks);
+  });
+
+  it('ignores heading markers inside code blocks', () => {
+    expect(chunks[1].content).toContain('# not a heading');
+  });
+
+  it('keeps tables whole', () => {
+    expect(chunks[2].content).toContain('| Key | Default |\n| --- | --- |\n| PORT | 4321 |');
+  });
+});
+
+describe('CSV chunking', () => {
+  it('repeats the header row in every chunk and keeps rows whole', () => {
+    const rows = Array.from({ length: 30 }, (_, i) => `${i},"name ${i}, with comma",${i * 10}`);
+    const text = ['id,name,value', ...rows].join('\n');
+    const chunks = chunkText(text, 'csv', { chunkSize: 40, overlap: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      const [header, ...body] = chunk.content.split('\n');
+      expect(header).toBe('id,name,value');
+      body.forEach(row => expect(rows).toContain(row));
+      // Offsets cover the rows only, not the repeated header
+      expect(text.slice(chunk.startOffset, chunk.endOffset)).toBe(body.join('\n'));
+    });
+  });
+});
+
+describe('JSON chunking', () => {
+  it('splits large documents by key path and prefixes content with the path', () => {
+    const value = {
+      server: { port: 4321, host: 'localhost' },
+      features: Array.from({ length: 20 }, (_, i) => ({ name: `feature-${i}`, enabled: i % 2 === 0 })),
+    };
+    const text = JSON.stringify(value, null, 2);
+    const chunks = chunkText(text, 'json', { chunkSize: 40, overlap: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].content).toContain('server: {');
+    expect(chunks.some(chunk => chunk.content.includes('features[3]: {'))).toBe(true);
+    expect(chunks.find(chunk => chunk.content.includes('features[3]'))!.headingPath).toEqual(['features']);
+    // Offsets start at the first value in the chunk, which follows its path prefix
+    chunks.forEach(chunk => {
+      const firstValue = chunk.content.slice(chunk.content.indexOf(': ') + 2);
+      expect(firstValue.startsWith(text.slice(chunk.startOffset, chunk.startOffset + 10))).toBe(true);
+    });
+  });
+
+  it('falls back to text chunking for invalid JSON', () => {
+    const text = '{ "broken": ';
+    expect(chunkText(text, 'json')).toEqual(textChunkingStrategy.split(text, { chunkSize: 200, overlap: 30 }));
+  });
+});
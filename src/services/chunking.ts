@@ -0,0 +1,531 @@
+/**
+ * Chunking - Structure-aware text splitting strategies selected by file type
+ * Every chunk records the character offsets it covers in the source text
+ */
+
+export interface TextChunk {
+  content: string;
+  startOffset: number;
+  endOffset: number;
+  headingPath?: string[];
+}
+
+export interface ChunkingOptions {
+  chunkSize: number; // Target chunk size in tokens
+  overlap: number; // Tokens repeated from the end of the previous chunk
+}
+
+export interface ChunkingStrategy {
+  split(text: string, options: ChunkingOptions): TextChunk[];
+}
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+  chunkSize: 200,
+  overlap: 30,
+};
+
+// Rough token estimate, matching the ~4 characters per token used for OpenAI models
+const CHARS_PER_TOKEN = 4;
+
+// Protected blocks (code, tables) are only broken up once they exceed this multiple of the chunk size
+const PROTECTED_BLOCK_LIMIT = 3;
+
+/**
+ * A contiguous span of the source text that is packed into chunks as a whole
+ */
+interface Unit {
+  start: number;
+  end: number;
+  protected?: boolean;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function spanTokens(start: number, end: number): number {
+  return Math.ceil((end - start) / CHARS_PER_TOKEN);
+}
+
+/**
+ * Trim whitespace from both ends of a span
+ */
+function trimSpan(text: string, start: number, end: number): Unit | null {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return end > start ? { start, end } : null;
+}
+
+/**
+ * Split a span into sentences. A boundary is terminal punctuation followed by whitespace
+ * and a capital, digit or opening bracket, so URLs, "e.g." and versions like v1.2.3 stay intact.
+ */
+function splitSentences(text: string, start: number, end: number): Unit[] {
+  const units: Unit[] = [];
+  const boundary = /[.!?]+["')\]]*(?=\s+["'(\[*\-]?[A-Z0-9])/g;
+  const segment = text.slice(start, end);
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(segment)) !== null) {
+    const unit = trimSpan(text, start + last, start + match.index + match[0].length);
+    if (unit) units.push(unit);
+    last = match.index + match[0].length;
+  }
+  const rest = trimSpan(text, start + last, end);
+  if (rest) units.push(rest);
+
+  return units;
+}
+
+/**
+ * Split a span at line breaks (used for oversized code blocks and tables)
+ */
+function splitLines(text: string, start: number, end: number): Unit[] {
+  const units: Unit[] = [];
+  let lineStart = start;
+  for (let i = start; i <= end; i++) {
+    if (i === end || text[i] === '\n') {
+      if (i > lineStart) units.push({ start: lineStart, end: i, protected: true });
+      lineStart = i + 1;
+    }
+  }
+  return units;
+}
+
+/**
+ * Split a span into word windows of at most `maxTokens`
+ */
+function splitWords(text: string, start: number, end: number, maxTokens: number): Unit[] {
+  const units: Unit[] = [];
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  let windowStart = start;
+
+  while (windowStart < end) {
+    let windowEnd = Math.min(end, windowStart + maxChars);
+    if (windowEnd < end) {
+      const space = text.lastIndexOf(' ', windowEnd);
+      if (space > windowStart) windowEnd = space;
+    }
+    const unit = trimSpan(text, windowStart, windowEnd);
+    if (unit) units.push(unit);
+    windowStart = windowEnd;
+  }
+
+  return units;
+}
+
+/**
+ * Break units that exceed the chunk size into smaller pieces
+ */
+function refineUnits(text: string, units: Unit[], options: ChunkingOptions): Unit[] {
+  return units.flatMap(unit => {
+    const tokens = spanTokens(unit.start, unit.end);
+    if (unit.protected) {
+      if (tokens <= options.chunkSize * PROTECTED_BLOCK_LIMIT) return [unit];
+      return splitLines(text, unit.start, unit.end).flatMap(line =>
+        spanTokens(line.start, line.end) > options.chunkSize
+          ? splitWords(text, line.start, line.end, options.chunkSize)
+          : [line]
+      );
+    }
+    if (tokens <= options.chunkSize) return [unit];
+    return splitSentences(text, unit.start, unit.end).flatMap(sentence =>
+      spanTokens(sentence.start, sentence.end) > options.chunkSize
+        ? splitWords(text, sentence.start, sentence.end, options.chunkSize)
+        : [sentence]
+    );
+  });
+}
+
+/**
+ * Greedily pack consecutive units into chunks, repeating roughly `overlap` tokens
+ * from the end of each chunk at the start of the next one
+ */
+function packUnits(
+  text: string,
+  units: Unit[],
+  options: ChunkingOptions,
+  headingPath?: string[]
+): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let i = 0;
+  let overlapStart: number | null = null;
+
+  while (i < units.length) {
+    const start = overlapStart ?? units[i].start;
+    let end = units[i].end;
+    let j = i + 1;
+
+    while (j < units.length && spanTokens(start, units[j].end) <= options.chunkSize) {
+      end = units[j].end;
+      j++;
+    }
+
+    chunks.push({
+      content: text.slice(start, end),
+      startOffset: start,
+      endOffset: end,
+      headingPath: headingPath?.length ? headingPath : undefined,
+    });
+
+    if (j >= units.length) break;
+    overlapStart = findOverlapStart(text, units, i, j, options.overlap);
+    i = j;
+  }
+
+  return chunks;
+}
+
+/**
+ * Pick where the next chunk starts: whole trailing units that fit the overlap budget,
+ * or a word boundary inside the last unit when it is plain prose
+ */
+function findOverlapStart(
+  text: string,
+  units: Unit[],
+  first: number,
+  next: number,
+  overlap: number
+): number | null {
+  if (overlap <= 0) return null;
+
+  const end = units[next - 1].end;
+  let start: number | null = null;
+  for (let k = next - 1; k > first && spanTokens(units[k].start, end) <= overlap; k--) {
+    start = units[k].start;
+  }
+  if (start !== null) return start;
+
+  const last = units[next - 1];
+  if (last.protected) return null;
+
+  const target = end - overlap * CHARS_PER_TOKEN;
+  if (target <= last.start) return null;
+  const space = text.indexOf(' ', target);
+  return space >= 0 && space + 1 < end ? space + 1 : null;
+}
+
+/**
+ * Split prose into paragraph units, keeping fenced code blocks intact
+ */
+function proseUnits(text: string, start: number, end: number): Unit[] {
+  const units: Unit[] = [];
+  const fence = /^[ \t]*(```|~~~)[^\n]*\n[\s\S]*?^[ \t]*\1[^\n]*$/gm;
+  const segment = text.slice(start, end);
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  const pushParagraphs = (from: number, to: number) => {
+    const paragraphs = text.slice(from, to).split(/\n[ \t]*\n/);
+    let offset = from;
+    for (const paragraph of paragraphs) {
+      const unit = trimSpan(text, offset, offset + paragraph.length);
+      if (unit) units.push(unit);
+      offset += paragraph.length;
+      const separator = /^\n[ \t]*\n/.exec(text.slice(offset, to));
+      offset += separator ? separator[0].length : 0;
+    }
+  };
+
+  while ((match = fence.exec(segment)) !== null) {
+    pushParagraphs(start + last, start + match.index);
+    units.push({ start: start + match.index, end: start + match.index + match[0].length, protected: true });
+    last = match.index + match[0].length;
+  }
+  pushParagraphs(start + last, end);
+
+  return units;
+}
+
+/**
+ * Plain text: paragraphs, then sentences, with fenced code blocks preserved
+ */
+export const textChunkingStrategy: ChunkingStrategy = {
+  split(text, options) {
+    const units = refineUnits(text, proseUnits(text, 0, text.length), options);
+    return packUnits(text, units, options);
+  },
+};
+
+/**
+ * Markdown: chunks never cross headings and carry their heading hierarchy;
+ * fenced code blocks and tables are kept whole where possible
+ */
+export const markdownChunkingStrategy: ChunkingStrategy = {
+  split(text, options) {
+    const chunks: TextChunk[] = [];
+    const headingStack: { level: number; title: string }[] = [];
+    let sectionStart = 0;
+    let sectionPath: string[] = [];
+    let inFence = false;
+    let offset = 0;
+
+    const flush = (end: number) => {
+      const units = markdownUnits(text, sectionStart, end);
+      // Keep a heading together with the block that follows it
+      if (sectionPath.length && units.length > 1 && text[units[0].start] === '#') {
+        units.splice(0, 2, { ...units[1], start: units[0].start });
+      }
+      chunks.push(...packUnits(text, refineUnits(text, units, options), options, sectionPath));
+    };
+
+    for (const line of text.split('\n')) {
+      if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+
+      const heading = inFence ? null : /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+      if (heading) {
+        flush(offset);
+        const level = heading[1].length;
+        while (headingStack.length && headingStack[headingStack.length - 1].level >= level) {
+          headingStack.pop();
+        }
+        headingStack.push({ level, title: heading[2].replace(/[*_`]/g, '') });
+        sectionStart = offset;
+        sectionPath = headingStack.map(h => h.title);
+      }
+      offset += line.length + 1;
+    }
+    flush(text.length);
+
+    return chunks;
+  },
+};
+
+/**
+ * Markdown blocks: pipe tables become protected units, everything else is prose
+ */
+function markdownUnits(text: string, start: number, end: number): Unit[] {
+  return proseUnits(text, start, end).flatMap(unit => {
+    if (unit.protected) return [unit];
+
+    const units: Unit[] = [];
+    let tableStart = -1;
+    let proseStart = unit.start;
+    let lineStart = unit.start;
+
+    for (let i = unit.start; i <= unit.end; i++) {
+      if (i !== unit.end && text[i] !== '\n') continue;
+      const isTableRow = text.slice(lineStart, i).trimStart().startsWith('|');
+
+      if (isTableRow && tableStart < 0) {
+        const prose = trimSpan(text, proseStart, lineStart);
+        if (prose) units.push(prose);
+        tableStart = lineStart;
+      } else if (!isTableRow && tableStart >= 0) {
+        units.push({ start: tableStart, end: lineStart - 1, protected: true });
+        tableStart = -1;
+        proseStart = lineStart;
+      }
+      lineStart = i + 1;
+    }
+
+    if (tableStart >= 0) {
+      units.push({ start: tableStart, end: unit.end, protected: true });
+    } else {
+      const prose = trimSpan(text, proseStart, unit.end);
+      if (prose) units.push(prose);
+    }
+    return units;
+  });
+}
+
+/**
+ * CSV: groups of whole rows; the header row is repeated in every chunk's content
+ */
+export const csvChunkingStrategy: ChunkingStrategy = {
+  split(text, options) {
+    const rows: Unit[] = [];
+    let rowStart = 0;
+    let inQuotes = false;
+
+    for (let i = 0; i <= text.length; i++) {
+      if (i < text.length && text[i] === '"') inQuotes = !inQuotes;
+      if (i === text.length || (text[i] === '\n' && !inQuotes)) {
+        const row = trimSpan(text, rowStart, i);
+        if (row) rows.push({ ...row, protected: true });
+        rowStart = i + 1;
+      }
+    }
+
+    if (rows.length <= 1) return packUnits(text, rows, options);
+
+    const [header, ...body] = rows;
+    const headerText = text.slice(header.start, header.end);
+    const budget = { ...options, chunkSize: Math.max(1, options.chunkSize - estimateTokens(headerText)) };
+
+    return packUnits(text, body, budget).map(chunk => ({
+      ...chunk,
+      content: `${headerText}\n${chunk.content}`,
+    }));
+  },
+};
+
+interface JsonNode {
+  start: number;
+  end: number;
+  children?: { key: string; node: JsonNode }[];
+}
+
+/**
+ * JSON: one unit per key path small enough to fit a chunk; content is prefixed with the path
+ */
+export const jsonChunkingStrategy: ChunkingStrategy = {
+  split(text, options) {
+    let root: JsonNode;
+    try {
+      JSON.parse(text);
+      root = scanJson(text, skipWhitespace(text, 0)).node;
+    } catch {
+      return textChunkingStrategy.split(text, options);
+    }
+
+    const units: { start: number; end: number; path: string[] }[] = [];
+    const visit = (node: JsonNode, path: string[]) => {
+      const fits = spanTokens(node.start, node.end) <= options.chunkSize;
+      if (fits || !node.children?.length) {
+        units.push({ start: node.start, end: node.end, path });
+        return;
+      }
+      node.children.forEach(({ key, node: child }) => visit(child, [...path, key]));
+    };
+    visit(root, []);
+
+    // Group sibling key paths that share a parent into chunks
+    const chunks: TextChunk[] = [];
+    let group: typeof units = [];
+
+    const flushGroup = () => {
+      if (group.length === 0) return;
+      const parent = group[0].path.slice(0, -1);
+      chunks.push({
+        content: group
+          .map(unit => `${formatJsonPath(unit.path)}: ${text.slice(unit.start, unit.end)}`)
+          .join('\n'),
+        startOffset: group[0].start,
+        endOffset: group[group.length - 1].end,
+        headingPath: parent.length ? [formatJsonPath(parent)] : undefined,
+      });
+      group = [];
+    };
+
+    for (const unit of units) {
+      const sameParent = group.length > 0 &&
+        formatJsonPath(group[0].path.slice(0, -1)) === formatJsonPath(unit.path.slice(0, -1));
+      if (!sameParent || spanTokens(group[0].start, unit.end) > options.chunkSize) {
+        flushGroup();
+      }
+      group.push(unit);
+    }
+    flushGroup();
+
+    return chunks;
+  },
+};
+
+function formatJsonPath(path: string[]): string {
+  if (path.length === 0) return '$';
+  return path.reduce((acc, key) => (/^\d+$/.test(key) ? `${acc}[${key}]` : acc ? `${acc}.${key}` : key), '');
+}
+
+function skipWhitespace(text: string, index: number): number {
+  while (index < text.length && /\s/.test(text[index])) index++;
+  return index;
+}
+
+function scanJsonString(text: string, index: number): number {
+  index++;
+  while (index < text.length && text[index] !== '"') {
+    index += text[index] === '\\' ? 2 : 1;
+  }
+  return index + 1;
+}
+
+/**
+ * Scan an already validated JSON value, recording the offsets of every member
+ */
+function scanJson(text: string, index: number): { node: JsonNode; next: number } {
+  const char = text[index];
+
+  if (char === '{' || char === '[') {
+    const close = char === '{' ? '}' : ']';
+    const children: { key: string; node: JsonNode }[] = [];
+    let i = skipWhitespace(text, index + 1);
+    let position = 0;
+
+    while (text[i] !== close) {
+      let key = String(position++);
+      if (char === '{') {
+        const keyEnd = scanJsonString(text, i);
+        key = JSON.parse(text.slice(i, keyEnd));
+        i = skipWhitespace(text, keyEnd) + 1; // skip ':'
+        i = skipWhitespace(text, i);
+      }
+      const { node, next } = scanJson(text, i);
+      children.push({ key, node });
+      i = skipWhitespace(text, next);
+      if (text[i] === ',') i = skipWhitespace(text, i + 1);
+    }
+
+    return { node: { start: index, end: i + 1, children }, next: i + 1 };
+  }
+
+  if (char === '"') {
+    const end = scanJsonString(text, index);
+    return { node: { start: index, end }, next: end };
+  }
+
+  let end = index;
+  while (end < text.length && !/[\s,\]}]/.test(text[end])) end++;
+  return { node: { start: index, end }, next: end };
+}
+
+const strategies: Record<string, ChunkingStrategy> = {
+  md: markdownChunkingStrategy,
+  markdown: markdownChunkingStrategy,
+  docx: markdownChunkingStrategy,
+  csv: csvChunkingStrategy,
+  json: jsonChunkingStrategy,
+};
+
+// File types whose strategy was registered at runtime; the registry of the processing worker does not have them
+const registeredFileTypes = new Set<string>();
+
+/**
+ * Register (or replace) the chunking strategy used for a file type.
+ * Documents of that type are then chunked on the registering thread rather than in the processing worker.
+ */
+export function registerChunkingStrategy(fileType: string, strategy: ChunkingStrategy): void {
+  strategies[fileType.toLowerCase()] = strategy;
+  registeredFileTypes.add(fileType.toLowerCase());
+}
+
+/**
+ * Whether a file type's strategy was registered at runtime
+ */
+export function hasRegisteredChunkingStrategy(fileType: string): boolean {
+  return registeredFileTypes.has(fileType.toLowerCase());
+}
+
+/**
+ * Get the chunking strategy for a file type, falling back to plain text
+ */
+export function getChunkingStrategy(fileType: string): ChunkingStrategy {
+  return strategies[fileType.toLowerCase()] || textChunkingStrategy;
+}
+
+/**
+ * Split text into chunks using the strategy registered for its file type
+ */
+export function chunkText(
+  text: string,
+  fileType: string,
+  options: Partial<ChunkingOptions> = {}
+): TextChunk[] {
+  const resolved = { ...DEFAULT_CHUNKING_OPTIONS, ...options };
+  const chunks = getChunkingStrategy(fileType).split(text, resolved);
+  if (chunks.length > 0 || !text.trim()) return chunks;
+
+  const whole = trimSpan(text, 0, text.length)!;
+  return [{ content: text.slice(whole.start, whole.end), startOffset: whole.start, endOffset: whole.end }];
+}
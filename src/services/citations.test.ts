@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { splitCitations, validateCitations, type Citation } from './citations';
+
+function createCitation(number: number): Citation {
+  return {
+    number,
+    chunkId: `chunk-${number}`,
+    documentId: `doc-${number}`,
+    title: `Document ${number}`,
+    startOffset: 0,
+    endOffset: 100,
+  };
+}
+
+describe('validateCitations', () => {
+  const citations = [createCitation(1), createCitation(2), createCitation(3)];
+
+  it('keeps valid markers and returns the citations used, in number order', () => {
+    const result = validateCitations('Run the installer [2]. Then configure it [1].', citations);
+
+    expect(result.answer).toBe('Run the installer [2]. Then configure it [1].');
+    expect(result.citations.map(citation => citation.number)).toEqual([1, 2]);
+  });
+
+  it('removes markers for passages the answer was not given, with the space before them', () => {
+    const result = validateCitations('Set the port [7]. Restart the server [1, 9].', citations);
+
+    expect(result.answer).toBe('Set the port. Restart the server [1].');
+    expect(result.citations.map(citation => citation.number)).toEqual([1]);
+  });
+
+  it('rewrites lists as separate markers', () => {
+    expect(validateCitations('Both work [2, 3].', citations).answer).toBe('Both work [2][3].');
+  });
+
+  it('leaves indexing after identifiers alone', () => {
+    const answer = 'Read the first argument with argv[1] and the first item with items[0] [2].';
+    const result = validateCitations(answer, citations);
+
+    expect(result.answer).toBe(answer);
+    expect(result.citations.map(citation => citation.number)).toEqual([2]);
+  });
+
+  it('leaves inline code and fenced code blocks alone', () => {
+    const answer = [
+      'Use `list [0]` to read the head [1].',
+      '',
+      '```python',
+      'matrix = [[0], [9]]',
+      'print(matrix [0])',
+      '```',
+      '',
+      'Done [8].',
+    ].join('\n');
+
+    expect(validateCitations(answer, citations).answer).toBe(answer.replace(' [8]', ''));
+  });
+
+  it('treats an unclosed fence as code to the end of the answer', () => {
+    const answer = 'Example [1]:\n```\nvalues = [0]';
+
+    expect(validateCitations(answer, citations).answer).toBe(answer);
+  });
+});
+
+describe('splitCitations', () => {
+  it('splits text into plain parts and citation numbers', () => {
+    expect(splitCitations('Install it [1]. Configure it [2][3].')).toEqual([
+      'Install it ',
+      1,
+      '. Configure it ',
+      2,
+      3,
+      '.',
+    ]);
+  });
+
+  it('expands citation lists', () => {
+    expect(splitCitations('See both [1, 2].')).toEqual(['See both ', 1, 2, '.']);
+  });
+
+  it('does not link indexing in code or after identifiers', () => {
+    expect(splitCitations('Use argv[1] or `x [2]` here [3].')).toEqual(['Use argv[1] or `x [2]` here ', 3, '.']);
+  });
+
+  it('splits part of the text while judging code on all of it', () => {
+    const text = 'Intro [1].\n```\nfirst [2]\nsecond [3]\n```';
+    const start = text.indexOf('second');
+
+    expect(splitCitations(text, start, text.length)).toEqual([text.slice(start)]);
+    expect(splitCitations(text, 0, start)).toEqual(['Intro ', 1, text.slice(9, start)]);
+  });
+});
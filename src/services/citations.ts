@@ -0,0 +1,133 @@
+/**
+ * Citations - Numbered inline references ([1], [2]) from an answer to the chunks it was based on
+ */
+
+export interface Citation {
+  // Number the passage had in the answer context, as written in the answer
+  number: number;
+  chunkId: string;
+  documentId: string;
+  title: string;
+  // Character range of the chunk in the document's content
+  startOffset: number;
+  endOffset: number;
+  pageNumber?: number;
+  section?: string;
+}
+
+// [1], [2][3] or a list such as [2, 3], with any spaces or tabs before it. The marker must not follow
+// a letter, digit, underscore or $, so code such as argv[1] or items[0] is not read as a citation.
+const CITATION_PATTERN = /([ \t]*)(?<![\p{L}\p{N}_$])\[(\d+(?:\s*,\s*\d+)*)\]/gu;
+// Opening and closing lines of fenced code blocks
+const FENCE_PATTERN = /^[ \t]*(`{3,}|~{3,})/gm;
+// Inline code: a run of backticks up to the next run of the same length
+const INLINE_CODE_PATTERN = /(`+)[^`]+?\1(?!`)/g;
+
+interface CitationMarker {
+  // Start of the spaces before the marker, start of the marker and its end
+  spaceStart: number;
+  start: number;
+  end: number;
+  numbers: number[];
+}
+
+function parseNumbers(list: string): number[] {
+  return list.split(',').map(value => Number(value.trim()));
+}
+
+/**
+ * Character ranges of fenced code blocks (to the closing fence, or the end of an unfinished answer)
+ * and of inline code spans
+ */
+function findCodeRanges(text: string): { start: number; end: number }[] {
+  const fenced: { start: number; end: number }[] = [];
+  let open: { start: number; fence: string } | null = null;
+
+  for (const match of text.matchAll(FENCE_PATTERN)) {
+    const fence = match[1];
+    if (!open) {
+      open = { start: match.index!, fence };
+    } else if (fence[0] === open.fence[0] && fence.length >= open.fence.length) {
+      const lineEnd = text.indexOf('\n', match.index!);
+      fenced.push({ start: open.start, end: lineEnd === -1 ? text.length : lineEnd });
+      open = null;
+    }
+  }
+  if (open) fenced.push({ start: open.start, end: text.length });
+
+  // Inline code only counts in the prose between fenced blocks
+  const ranges = [...fenced];
+  let position = 0;
+  [...fenced, { start: text.length, end: text.length }].forEach(block => {
+    const prose = text.slice(position, block.start);
+    for (const match of prose.matchAll(INLINE_CODE_PATTERN)) {
+      ranges.push({ start: position + match.index!, end: position + match.index! + match[0].length });
+    }
+    position = block.end;
+  });
+
+  return ranges;
+}
+
+/**
+ * Citation markers in the text, outside code
+ */
+function findCitationMarkers(text: string): CitationMarker[] {
+  const code = findCodeRanges(text);
+  const markers: CitationMarker[] = [];
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const start = match.index! + match[1].length;
+    if (code.some(range => start >= range.start && start < range.end)) continue;
+    markers.push({ spaceStart: match.index!, start, end: match.index! + match[0].length, numbers: parseNumbers(match[2]) });
+  }
+
+  return markers;
+}
+
+/**
+ * Keep only citations that point at passages the answer was given. Lists are rewritten as
+ * separate markers ([2, 3] becomes [2][3]) and markers with no valid number are removed.
+ * Returns the cleaned answer and the citations it still uses, in number order.
+ */
+export function validateCitations(answer: string, citations: Citation[]): { answer: string; citations: Citation[] } {
+  const byNumber = new Map(citations.map(citation => [citation.number, citation]));
+  const cited = new Set<number>();
+
+  let cleaned = '';
+  let last = 0;
+  findCitationMarkers(answer).forEach(marker => {
+    const valid = Array.from(new Set(marker.numbers.filter(number => byNumber.has(number))));
+    valid.forEach(number => cited.add(number));
+    cleaned += valid.length > 0
+      ? answer.slice(last, marker.start) + valid.map(number => `[${number}]`).join('')
+      : answer.slice(last, marker.spaceStart);
+    last = marker.end;
+  });
+  cleaned += answer.slice(last);
+
+  return {
+    answer: cleaned,
+    citations: citations.filter(citation => cited.has(citation.number)),
+  };
+}
+
+/**
+ * Split answer text into plain text and citation numbers, for rendering citations as links.
+ * Pass `start` and `end` to split only part of the text; code spans are still judged on all of it.
+ */
+export function splitCitations(text: string, start = 0, end = text.length): (string | number)[] {
+  const parts: (string | number)[] = [];
+  let last = start;
+
+  findCitationMarkers(text)
+    .filter(marker => marker.start >= start && marker.end <= end)
+    .forEach(marker => {
+      if (marker.start > last) parts.push(text.slice(last, marker.start));
+      parts.push(...marker.numbers);
+      last = marker.end;
+    });
+  if (last < end) parts.push(text.slice(last, end));
+
+  return parts;
+}
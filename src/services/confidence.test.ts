@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { combineConfidence, getSimilarityRange, scoreCoverage, scoreRetrieval } from './confidence';
+import { generateLocalEmbedding, LOCAL_EMBEDDING_MODEL } from './local-embeddings';
+import { DEFAULT_SETTINGS } from './settings-service';
+import { cosineSimilarity } from './vector-math';
+
+// A small developer knowledge base, one passage per chunk
+const PASSAGES = [
+  'To install the CLI, run npm install -g docu-cli. Node.js 18 or later is required.',
+  'Set the OPENAI_API_KEY environment variable before starting the server, or enter the key on the Settings page.',
+  'The server listens on port 4321 by default. Change it with the PORT environment variable.',
+  'Deploy with deploy.sh, which builds the app and uploads the dist folder to the configured bucket.',
+  'Uploaded PDF and DOCX files are split into chunks of 512 tokens with an overlap of 64 tokens.',
+  'Run npm run test:run to execute the test suite once, without watch mode.',
+  'Rate limits: the API allows 60 requests per minute per key; further requests get HTTP 429.',
+  'Logs are written to logs/server.log and rotated daily; set LOG_LEVEL=debug for verbose output.',
+];
+
+const ANSWERABLE = [
+  'How do I install the CLI?',
+  'Which port does the server listen on?',
+  'How do I set the OpenAI API key?',
+  'What chunk size is used for uploaded PDF files?',
+  'How many requests per minute does the API allow?',
+  'Where are the server logs written?',
+];
+
+const UNANSWERABLE = [
+  'What is the capital of France?',
+  'How do I bake sourdough bread?',
+  'Who won the football world cup in 1998?',
+  'Recommend a good hiking trail in the Alps',
+];
+
+const TOP_K = 3;
+
+/**
+ * Retrieval-time confidence of a question against the passages, as the search computes it
+ */
+function assess(question: string) {
+  const embeddings = PASSAGES.map(passage => generateLocalEmbedding(passage));
+  const query = generateLocalEmbedding(question);
+  const ranked = embeddings
+    .map((embedding, i) => ({ text: PASSAGES[i], similarity: cosineSimilarity(query, embedding) }))
+    .sort((a, b) => b.similarity - a.similarity);
+  const picked = ranked.slice(0, TOP_K);
+
+  return combineConfidence(
+    scoreRetrieval(
+      picked.map(match => match.similarity),
+      ranked.map(match => match.similarity),
+      getSimilarityRange(LOCAL_EMBEDDING_MODEL)
+    ),
+    scoreCoverage(question, picked.map(match => match.text).join('\n'))
+  );
+}
+
+describe('confidence', () => {
+  it.each(ANSWERABLE)('clears the default answer threshold for "%s"', question => {
+    expect(assess(question).score).toBeGreaterThanOrEqual(DEFAULT_SETTINGS.answerThreshold);
+  });
+
+  it.each(UNANSWERABLE)('stays below the default answer threshold for "%s"', question => {
+    expect(assess(question).score).toBeLessThan(DEFAULT_SETTINGS.answerThreshold);
+  });
+
+  it('ranks every answerable question above every unanswerable one', () => {
+    const lowestAnswerable = Math.min(...ANSWERABLE.map(question => assess(question).score));
+    const highestUnanswerable = Math.max(...UNANSWERABLE.map(question => assess(question).score));
+
+    expect(lowestAnswerable).toBeGreaterThan(highestUnanswerable);
+  });
+});
+
+describe('scoreRetrieval', () => {
+  it('scales similarities to the embedding model', () => {
+    // 0.75 is an off-topic match for ada-002 but a strong one for text-embedding-3-small
+    expect(scoreRetrieval([0.75], [], getSimilarityRange('text-embedding-ada-002'))).toBeLessThan(0.3);
+    expect(scoreRetrieval([0.75], [], getSimilarityRange('text-embedding-3-small'))).toBe(1);
+  });
+
+  it('falls back to a default range for unknown models', () => {
+    expect(getSimilarityRange('some-custom-model')).toEqual(getSimilarityRange('another-model'));
+  });
+
+  it('rewards a best match that stands out from the other candidates', () => {
+    const range = getSimilarityRange(LOCAL_EMBEDDING_MODEL);
+    const clear = scoreRetrieval([0.4], [0.4, 0.1, 0.1, 0.1], range);
+    const crowded = scoreRetrieval([0.4], [0.4, 0.38, 0.39, 0.37], range);
+
+    expect(clear).toBeGreaterThan(crowded);
+  });
+
+  it('is zero without picked chunks', () => {
+    expect(scoreRetrieval([], [0.5])).toBe(0);
+  });
+});
+
+describe('combineConfidence', () => {
+  it('weighs groundedness in only once it is known', () => {
+    expect(combineConfidence(1, 1).score).toBeCloseTo(1);
+    expect(combineConfidence(1, 1, 0).score).toBeLessThan(1);
+    expect(combineConfidence(1, 1).groundedness).toBeUndefined();
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Confidence - Estimate of how well the retrieved documentation answers a question
+ * Combines the strength and separation of the best similarity scores, how much of the
+ * question the context covers and, once there is an answer, how well it is grounded
+ */
+
+import { LOCAL_EMBEDDING_MODEL, tokenize } from './local-embeddings';
+import type { CompletionProvider } from './llm-providers';
+
+export interface ConfidenceBreakdown {
+  // Overall estimate between 0 and 1
+  score: number;
+  // Strength of the best match and how clearly it stands out from the other candidates
+  retrieval: number;
+  // Share of the question's terms that appear in the context
+  coverage: number;
+  // How well the answer is supported by the context; missing when no answer was generated
+  groundedness?: number;
+}
+
+/**
+ * Similarities at or below the floor count as no match, at or above the ceiling as a strong one
+ */
+export interface SimilarityRange {
+  floor: number;
+  ceiling: number;
+}
+
+// Each embedding model spreads cosine similarities differently: unrelated text scores near 0 with
+// the sparse local vectors but around 0.7 with text-embedding-ada-002. Ranges are measured as the
+// typical best similarity for off-topic questions (floor) and for questions a passage answers (ceiling).
+const SIMILARITY_RANGES: Record<string, SimilarityRange> = {
+  [LOCAL_EMBEDDING_MODEL]: { floor: 0.1, ceiling: 0.6 },
+  'text-embedding-3-small': { floor: 0.2, ceiling: 0.6 },
+  'text-embedding-3-large': { floor: 0.15, ceiling: 0.55 },
+  'text-embedding-ada-002': { floor: 0.72, ceiling: 0.88 },
+};
+const DEFAULT_SIMILARITY_RANGE: SimilarityRange = { floor: 0.2, ceiling: 0.6 };
+// Lead of the best similarity over the candidates' average that counts as a clear winner,
+// as a share of the model's similarity range
+const SEPARATION_SHARE = 0.4;
+
+// Weights of the signals before and after the answer's groundedness is known
+const RETRIEVAL_WEIGHT = 0.55;
+const COVERAGE_WEIGHT = 0.45;
+const GROUNDED_RETRIEVAL_WEIGHT = 0.4;
+const GROUNDED_COVERAGE_WEIGHT = 0.3;
+const GROUNDEDNESS_WEIGHT = 0.3;
+
+// Characters of context shown to the model when it rates groundedness
+const GROUNDEDNESS_CONTEXT_CHARS = 6000;
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Similarity range of an embedding model (a default range for models without a measured one)
+ */
+export function getSimilarityRange(model: string): SimilarityRange {
+  return SIMILARITY_RANGES[model] ?? DEFAULT_SIMILARITY_RANGE;
+}
+
+/**
+ * Score the similarity distribution: the best similarity among the picked chunks,
+ * rescaled to the embedding model's range, blended with its lead over the average candidate
+ */
+export function scoreRetrieval(
+  picked: number[],
+  candidates: number[],
+  { floor, ceiling }: SimilarityRange = DEFAULT_SIMILARITY_RANGE
+): number {
+  if (picked.length === 0) return 0;
+
+  const top = Math.max(...picked);
+  const strength = clamp((top - floor) / (ceiling - floor));
+  if (candidates.length < 2) return strength;
+
+  const mean = candidates.reduce((sum, similarity) => sum + similarity, 0) / candidates.length;
+  const separation = clamp((top - mean) / (SEPARATION_SHARE * (ceiling - floor)));
+  return 0.75 * strength + 0.25 * separation;
+}
+
+/**
+ * Share of the distinct terms of `text` (stopwords aside) that also appear in `reference`
+ */
+export function scoreCoverage(text: string, reference: string): number {
+  const terms = new Set(tokenize(text));
+  if (terms.size === 0) return 0;
+
+  const available = new Set(tokenize(reference));
+  return Array.from(terms).filter(term => available.has(term)).length / terms.size;
+}
+
+/**
+ * Weighted overall score; groundedness is only weighed in once it is known
+ */
+export function combineConfidence(retrieval: number, coverage: number, groundedness?: number): ConfidenceBreakdown {
+  const score = groundedness === undefined
+    ? RETRIEVAL_WEIGHT * retrieval + COVERAGE_WEIGHT * coverage
+    : GROUNDED_RETRIEVAL_WEIGHT * retrieval + GROUNDED_COVERAGE_WEIGHT * coverage + GROUNDEDNESS_WEIGHT * groundedness;
+
+  return { score: clamp(score), retrieval, coverage, groundedness };
+}
+
+/**
+ * Ask the completion model how well an answer is supported by the context, between 0 and 1
+ */
+export async function rateGroundedness(
+  provider: CompletionProvider,
+  answer: string,
+  context: string,
+  signal?: AbortSignal
+): Promise<number> {
+  const reply = await provider.complete({
+    messages: [
+      {
+        role: 'system',
+        content: 'You check answers against documentation. Rate from 0 (contradicted or unsupported) ' +
+          'to 10 (every statement is supported) how well the answer is supported by the passages. ' +
+          'Reply with only the number.',
+      },
+      {
+        role: 'user',
+        content: `Passages:\n${context.slice(0, GROUNDEDNESS_CONTEXT_CHARS)}\n\nAnswer:\n${answer}`,
+      },
+    ],
+    maxTokens: 8,
+    temperature: 0,
+    signal,
+  });
+
+  const rating = Number(reply.match(/\d+(\.\d+)?/)?.[0]);
+  if (Number.isNaN(rating)) {
+    throw new Error('Groundedness check returned an invalid response');
+  }
+  return clamp(rating / 10);
+}
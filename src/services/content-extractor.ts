@@ -0,0 +1,51 @@
+/**
+ * Content Extractor - Turns uploaded files into indexable text
+ * Shared by the browser DocumentService and the server-side document API
+ */
+
+import type { DocumentPage } from './ai-service';
+import { extractPdf } from './pdf-extractor';
+import { extractDocx } from './docx-extractor';
+
+export interface ExtractedContent {
+  content: string;
+  pages?: DocumentPage[];
+}
+
+/**
+ * Get file type from a file name's extension
+ */
+export function getFileType(fileName: string): string {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return extension || 'unknown';
+}
+
+/**
+ * Extract text content from file
+ */
+export async function extractFileContent(file: File): Promise<ExtractedContent> {
+  const fileType = getFileType(file.name);
+
+  switch (fileType) {
+    case 'txt':
+    case 'md':
+    case 'json':
+    case 'csv':
+      return { content: await file.text() };
+
+    case 'pdf':
+      // Scanned or image-only PDFs are rejected so they are never indexed as empty text
+      return await extractPdf(await file.arrayBuffer(), file.name);
+
+    case 'docx':
+      return { content: await extractDocx(await file.arrayBuffer(), file.name) };
+
+    default:
+      // Try to read as text
+      try {
+        return { content: await file.text() };
+      } catch {
+        throw new Error(`Unsupported file type: ${fileType}`);
+      }
+  }
+}
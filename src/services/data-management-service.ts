@@ -0,0 +1,168 @@
+/**
+ * Data Management Service - Registry of everything the app stores in the browser
+ * Reports per-namespace usage and wipes namespaces selectively
+ */
+
+import { BaseCrudService, mockLogout } from '@/integrations';
+import { aiService } from './ai-service';
+import { documentService } from './document-service';
+import { settingsService } from './settings-service';
+
+// Types
+export type StorageNamespaceId = 'documents' | 'vectors' | 'embeddings' | 'history' | 'settings' | 'session';
+
+export interface StorageNamespace {
+  id: StorageNamespaceId;
+  label: string;
+  description: string;
+  localStorageKeys: string[];
+  indexedDBStores: string[];
+  // Whether the page has to reload after wiping (state held outside the services)
+  requiresReload: boolean;
+}
+
+export interface NamespaceUsage {
+  id: StorageNamespaceId;
+  bytes: number;
+  entries: number;
+}
+
+export const STORAGE_NAMESPACES: StorageNamespace[] = [
+  {
+    id: 'documents',
+    label: 'Documents',
+    description: 'Uploaded documents, their extracted text, earlier versions and pending indexing jobs (their search index entries are removed too)',
+    localStorageKeys: ['docu-query-documents', 'docu-query-knowledgebasedocuments'],
+    indexedDBStores: ['docu-query/jobs', 'docu-query/revisions'],
+    requiresReload: false,
+  },
+  {
+    id: 'vectors',
+    label: 'Search Index',
+    description: 'Chunks and embeddings used for retrieval; rebuilt from your documents after clearing',
+    localStorageKeys: ['docu-query-vectors'],
+    indexedDBStores: ['docu-query/chunks'],
+    requiresReload: false,
+  },
+  {
+    id: 'embeddings',
+    label: 'Embedding Cache',
+    description: 'Embeddings of unchanged text reused when documents are re-indexed',
+    localStorageKeys: [],
+    indexedDBStores: ['docu-query/embeddings'],
+    requiresReload: false,
+  },
+  {
+    id: 'history',
+    label: 'Query History',
+    description: 'Questions, answers and feedback shown on the History page',
+    localStorageKeys: ['docu-query-queryhistory'],
+    indexedDBStores: [],
+    requiresReload: false,
+  },
+  {
+    id: 'settings',
+    label: 'Settings',
+    description: 'Provider, API key, model and processing preferences',
+    localStorageKeys: ['docuquery_settings', 'docu-query-openai-key'],
+    indexedDBStores: [],
+    requiresReload: false,
+  },
+  {
+    id: 'session',
+    label: 'Member Session',
+    description: 'Signed-in member profile (signs you out)',
+    localStorageKeys: ['docu-query-member', 'member-store'],
+    indexedDBStores: [],
+    requiresReload: true,
+  },
+];
+
+/**
+ * Size of a localStorage entry in bytes (strings are stored as UTF-16)
+ */
+function localStorageEntrySize(key: string): number {
+  const value = localStorage.getItem(key);
+  return value === null ? 0 : (key.length + value.length) * 2;
+}
+
+/**
+ * Measure how much each namespace currently stores
+ */
+export async function getStorageUsage(): Promise<NamespaceUsage[]> {
+  if (typeof window === 'undefined') return [];
+  await aiService.whenReady();
+  const embeddingCache = await aiService.getEmbeddingCacheStats().catch(() => ({ entries: 0, bytes: 0 }));
+  const revisions = await documentService.getRevisionStats().catch(() => ({ entries: 0, bytes: 0 }));
+
+  return STORAGE_NAMESPACES.map(namespace => {
+    let bytes = namespace.localStorageKeys.reduce((sum, key) => sum + localStorageEntrySize(key), 0);
+    let entries = namespace.localStorageKeys.filter(key => localStorage.getItem(key) !== null).length;
+
+    if (namespace.id === 'vectors') {
+      const stats = aiService.getIndexStats();
+      bytes += stats.bytes;
+      entries = stats.chunks;
+    } else if (namespace.id === 'embeddings') {
+      bytes = embeddingCache.bytes;
+      entries = embeddingCache.entries;
+    } else if (namespace.id === 'documents') {
+      bytes += revisions.bytes;
+      entries = documentService.getAllDocuments().length;
+    }
+
+    return { id: namespace.id, bytes, entries };
+  });
+}
+
+/**
+ * Total storage used by this origin, when the browser reports it
+ */
+export async function getOriginStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Wipe a single namespace through the service that owns it
+ */
+export async function clearNamespace(id: StorageNamespaceId): Promise<void> {
+  switch (id) {
+    case 'documents':
+      await documentService.clearAll();
+      await BaseCrudService.clear('knowledgebasedocuments');
+      break;
+    case 'vectors':
+      localStorage.removeItem('docu-query-vectors');
+      await documentService.rebuildIndex();
+      break;
+    case 'embeddings':
+      await aiService.clearEmbeddingCache();
+      break;
+    case 'history':
+      await BaseCrudService.clear('queryhistory');
+      break;
+    case 'settings':
+      settingsService.resetSettings();
+      break;
+    case 'session':
+      mockLogout();
+      localStorage.removeItem('member-store');
+      break;
+  }
+}
+
+/**
+ * Wipe every namespace
+ */
+export async function clearAllNamespaces(): Promise<void> {
+  // Documents go first so the index is not rebuilt from them
+  for (const namespace of STORAGE_NAMESPACES) {
+    await clearNamespace(namespace.id);
+  }
+}
@@ -2,7 +2,14 @@
  * Document Service - Handle document upload, processing, and management
  */
 
-import { aiService } from './ai-service';
+import { AIService, aiService, type DocumentPage } from './ai-service';
+import { getFileType } from './content-extractor';
+import { processingClient } from './processing-client';
+import { settingsService, type Settings } from './settings-service';
+import { createDefaultJobStore, IndexingQueue, type IndexingJob } from './indexing-queue';
+import { MemoryVectorStore } from './vector-store';
+import { isQuotaError } from './indexed-db';
+import { createDefaultRevisionStore, MAX_REVISIONS, revisionAsOf } from './revision-store';
 
 // Types
 export interface Document {
@@ -16,26 +23,103 @@ export interface Document {
   status: 'pending' | 'processing' | 'indexed' | 'error';
   chunkCount?: number;
   error?: string;
+  pages?: DocumentPage[];
+  shared?: boolean;
+  // Number of the current content, counting up from 1 with each change
+  // (earlier contents are kept in the revision store)
+  version?: number;
 }
 
+/**
+ * A version of a document's content
+ */
+export interface DocumentRevision {
+  version: number;
+  content: string;
+  pages?: DocumentPage[];
+  // When this content became current
+  savedAt: Date;
+}
+
+// Documents saved before revisions moved out of localStorage carry them inline
+type StoredDocument = Document & { revisions?: DocumentRevision[] };
+
+export type UploadStage = 'extracting' | 'chunking' | 'embedding' | 'saving' | 'done';
+
 export interface UploadProgress {
   documentId: string;
+  stage: UploadStage;
+  // Overall progress of the upload, 0-100
   progress: number;
+  // Human-readable description of the current step
   status: string;
 }
 
+// Share of the overall progress bar reached at the start of each stage
+const UPLOAD_STAGE_PROGRESS: Record<UploadStage, number> = {
+  extracting: 0,
+  chunking: 20,
+  embedding: 25,
+  saving: 90,
+  done: 100,
+};
+
 // Storage key
 const DOCUMENTS_STORAGE_KEY = 'docu-query-documents';
 
+// Server-side knowledge base shared by every browser
+const DOCUMENTS_API = '/api/documents';
+
+// Settings that change which embedding model is used
+const EMBEDDING_SETTINGS: (keyof Settings)[] = [
+  'provider',
+  'openaiApiKey',
+  'baseUrl',
+  'embeddingModel',
+  'apiVersion',
+  'useLocalEmbeddings',
+];
+
 /**
  * Document Service Class
  */
 export class DocumentService {
   private documents: Map<string, Document> = new Map();
   private onUpdateCallbacks: Set<(docs: Document[]) => void> = new Set();
+  private saveError: string | null = null;
+  private onSaveErrorCallbacks: Set<(error: string | null) => void> = new Set();
+  private revisionStore = createDefaultRevisionStore();
+  // Inline revisions still to be moved into the revision store (kept in localStorage until then)
+  private legacyRevisions: Map<string, DocumentRevision[]> = new Map();
+  private revisionsReady: Promise<void> = Promise.resolve();
+  // Counts document changes, so a cached snapshot index knows when it is out of date
+  private changeCount = 0;
+  private snapshot: { time: number; changeCount: number; index: Promise<AIService> } | null = null;
+  private queue = new IndexingQueue(
+    createDefaultJobStore(),
+    (job, signal, onProgress) => this.runJob(job, signal, onProgress)
+  );
 
   constructor() {
     this.loadDocuments();
+    if (typeof window !== 'undefined') {
+      this.revisionsReady = this.migrateLegacyRevisions();
+      this.queue.load()
+        .then(() => this.resumeInterruptedDocuments())
+        .then(() => this.syncWithServer())
+        .then(() => this.reindexStaleDocuments())
+        .catch(error => {
+          console.error('Error re-indexing documents:', error);
+        });
+
+      // Switching embedding backends invalidates existing vectors
+      settingsService.onUpdate((settings, previous) => {
+        if (!EMBEDDING_SETTINGS.some(key => settings[key] !== previous[key])) return;
+        this.reindexStaleDocuments().catch(error => {
+          console.error('Error re-indexing documents:', error);
+        });
+      });
+    }
   }
 
   /**
@@ -46,13 +130,18 @@ export class DocumentService {
       try {
         const stored = localStorage.getItem(DOCUMENTS_STORAGE_KEY);
         if (stored) {
-          const data = JSON.parse(stored);
+          const data: StoredDocument[] = JSON.parse(stored);
           this.documents = new Map(
-            data.map((doc: Document) => [doc.id, {
-              ...doc,
-              uploadedAt: new Date(doc.uploadedAt),
-              lastUpdated: new Date(doc.lastUpdated),
-            }])
+            data.map(({ revisions, ...doc }) => {
+              if (revisions?.length) {
+                this.legacyRevisions.set(doc.id, revisions.map(revision => ({ ...revision, savedAt: new Date(revision.savedAt) })));
+              }
+              return [doc.id, {
+                ...doc,
+                uploadedAt: new Date(doc.uploadedAt),
+                lastUpdated: new Date(doc.lastUpdated),
+              }];
+            })
           );
         }
       } catch (error) {
@@ -61,24 +150,74 @@ export class DocumentService {
     }
   }
 
+  /**
+   * Move revisions saved inline with the documents into the revision store
+   */
+  private async migrateLegacyRevisions(): Promise<void> {
+    if (this.legacyRevisions.size === 0) return;
+    try {
+      for (const [id, revisions] of this.legacyRevisions) {
+        for (const revision of revisions) {
+          await this.revisionStore.put(id, revision);
+        }
+      }
+      this.legacyRevisions.clear();
+      this.saveDocuments();
+    } catch (error) {
+      console.error('Error migrating document revisions:', error);
+    }
+  }
+
   /**
    * Save documents to localStorage
    */
   private saveDocuments(): void {
     if (typeof window !== 'undefined') {
       try {
-        const data = Array.from(this.documents.values());
+        const data: StoredDocument[] = Array.from(this.documents.values(), document => ({
+          ...document,
+          revisions: this.legacyRevisions.get(document.id),
+        }));
         localStorage.setItem(DOCUMENTS_STORAGE_KEY, JSON.stringify(data));
+        this.setSaveError(null);
       } catch (error) {
         console.error('Error saving documents:', error);
+        this.setSaveError(isQuotaError(error)
+          ? 'Browser storage quota exceeded, so recent document changes were not saved. Delete unused documents or free up space on the Settings page, then try again.'
+          : 'Recent document changes could not be saved in this browser.');
       }
     }
   }
 
+  /**
+   * Record the outcome of the last save and tell subscribers when it changes
+   */
+  private setSaveError(error: string | null): void {
+    if (error === this.saveError) return;
+    this.saveError = error;
+    this.onSaveErrorCallbacks.forEach(callback => callback(error));
+  }
+
+  /**
+   * Error of the last failed save, or null once documents save again
+   */
+  getSaveError(): string | null {
+    return this.saveError;
+  }
+
+  /**
+   * Subscribe to save failures (called with null once saving works again)
+   */
+  onSaveError(callback: (error: string | null) => void): () => void {
+    this.onSaveErrorCallbacks.add(callback);
+    return () => this.onSaveErrorCallbacks.delete(callback);
+  }
+
   /**
    * Notify subscribers of document updates
    */
   private notifyUpdate(): void {
+    this.changeCount++;
     const docs = this.getAllDocuments();
     this.onUpdateCallbacks.forEach(callback => callback(docs));
   }
@@ -92,9 +231,10 @@ export class DocumentService {
   }
 
   /**
-   * Upload and process a file
+   * Upload a file and queue it for processing; resolves once it is indexed,
+   * reporting progress through each processing stage
    */
-  async uploadFile(file: File): Promise<Document> {
+  async uploadFile(file: File, onProgress?: (progress: UploadProgress) => void): Promise<Document> {
     const id = crypto.randomUUID();
     
     // Create initial document record
@@ -102,7 +242,7 @@ export class DocumentService {
       id,
       title: file.name,
       content: '',
-      fileType: this.getFileType(file),
+      fileType: getFileType(file.name),
       fileSize: file.size,
       uploadedAt: new Date(),
       lastUpdated: new Date(),
@@ -113,32 +253,76 @@ export class DocumentService {
     this.saveDocuments();
     this.notifyUpdate();
 
-    try {
-      // Update status to processing
-      document.status = 'processing';
-      this.saveDocuments();
-      this.notifyUpdate();
+    await this.queue.enqueue({ id, kind: 'upload', file, publish: true }, onProgress);
+    return document;
+  }
+
+  /**
+   * Extract (for uploads), index and optionally share a document; run by the indexing queue
+   */
+  private async runJob(
+    job: IndexingJob,
+    signal: AbortSignal,
+    onProgress: (progress: UploadProgress) => void
+  ): Promise<void> {
+    const document = this.documents.get(job.id);
+    if (!document) return;
+
+    const report = (stage: UploadStage, status: string, progress = UPLOAD_STAGE_PROGRESS[stage]) => {
+      onProgress({ documentId: document.id, stage, progress: Math.round(progress), status });
+    };
+
+    document.status = 'processing';
+    document.error = undefined;
+    this.saveDocuments();
+    this.notifyUpdate();
 
-      // Extract text content from file
-      const content = await this.extractContent(file);
-      document.content = content;
+    try {
+      if (job.kind === 'upload' && !document.content) {
+        if (!job.file) throw new Error('The uploaded file is no longer available. Upload it again.');
+
+        // Extract text content from file
+        report('extracting', 'Extracting text');
+        const { content, pages } = await processingClient.request({ type: 'extract', file: job.file });
+        signal.throwIfAborted();
+        document.content = content;
+        document.pages = pages;
+        this.saveDocuments();
+        // The stored text is enough to resume from here
+        await this.queue.markExtracted(job.id);
+      }
 
-      // Index the document
+      // Index the document (chunking is done before the first embedding progress event)
+      report('chunking', 'Splitting into chunks');
+      await aiService.removeDocument(document.id);
       await aiService.indexDocument({
         id: document.id,
         title: document.title,
         content: document.content,
         fileType: document.fileType,
+        pages: document.pages,
+      }, {
+        signal,
+        onProgress: ({ embedded, total }) => {
+          const start = UPLOAD_STAGE_PROGRESS.embedding;
+          const share = total > 0 ? embedded / total : 1;
+          report('embedding', `Embedding chunk ${embedded} of ${total}`, start + share * (UPLOAD_STAGE_PROGRESS.saving - start));
+        },
       });
+      signal.throwIfAborted();
 
       // Update status to indexed
+      report('saving', 'Saving');
       document.status = 'indexed';
-      document.lastUpdated = new Date();
+      if (job.kind === 'upload') document.lastUpdated = new Date();
       this.saveDocuments();
       this.notifyUpdate();
 
-      return document;
+      if (job.publish) await this.pushToServer(document);
+      report('done', 'Done');
     } catch (error) {
+      // Paused, cancelled or replaced jobs are updated by whoever interrupted them
+      if (signal.aborted) throw error;
       document.status = 'error';
       document.error = error instanceof Error ? error.message : 'Unknown error';
       this.saveDocuments();
@@ -148,74 +332,104 @@ export class DocumentService {
   }
 
   /**
-   * Extract text content from file
+   * Queue documents left pending or processing when the page was closed
    */
-  private async extractContent(file: File): Promise<string> {
-    const fileType = this.getFileType(file);
-
-    switch (fileType) {
-      case 'txt':
-      case 'md':
-      case 'json':
-      case 'csv':
-        return await file.text();
-
-      case 'pdf':
-        return await this.extractPdfContent(file);
-
-      case 'docx':
-        return await this.extractDocxContent(file);
-
-      default:
-        // Try to read as text
-        try {
-          return await file.text();
-        } catch {
-          throw new Error(`Unsupported file type: ${fileType}`);
-        }
+  private resumeInterruptedDocuments(): void {
+    for (const document of this.documents.values()) {
+      if (document.status !== 'pending' && document.status !== 'processing') continue;
+      if (this.queue.getJob(document.id)) continue;
+
+      if (document.content) {
+        this.scheduleIndexing(document.id);
+      } else {
+        document.status = 'error';
+        document.error = 'Processing was interrupted before the file was saved. Upload it again.';
+      }
     }
+    this.saveDocuments();
+    this.notifyUpdate();
   }
 
   /**
-   * Extract content from PDF (simplified - would need pdf.js for real implementation)
+   * Queue a document for (re-)indexing without waiting for it
+   * (failures are recorded on the document)
    */
-  private async extractPdfContent(file: File): Promise<string> {
-    // For demo purposes, return a placeholder
-    // In production, use pdf.js or similar library
-    return `[PDF Content from ${file.name}]
-
-This is a placeholder for PDF content extraction.
-To enable full PDF support, integrate pdf.js library.
+  private scheduleIndexing(id: string, publish = false): void {
+    const document = this.documents.get(id);
+    if (document) document.status = 'pending';
+    this.queue.enqueue({ id, kind: 'index', publish }).catch(() => {});
+  }
 
-File size: ${(file.size / 1024).toFixed(2)} KB
-Uploaded: ${new Date().toISOString()}
+  /**
+   * Get indexing jobs (queued, running, paused and failed)
+   */
+  getJobs(): IndexingJob[] {
+    return this.queue.getJobs();
+  }
 
-For now, please upload .txt or .md files for best results.`;
+  /**
+   * Subscribe to indexing job updates
+   */
+  onJobsUpdate(callback: (jobs: IndexingJob[]) => void): () => void {
+    return this.queue.onUpdate(callback);
   }
 
   /**
-   * Extract content from DOCX (simplified)
+   * Pause a document's indexing job
    */
-  private async extractDocxContent(file: File): Promise<string> {
-    // For demo purposes, return a placeholder
-    // In production, use mammoth.js or similar library
-    return `[DOCX Content from ${file.name}]
+  async pauseIndexing(id: string): Promise<void> {
+    await this.queue.pause(id);
+    const document = this.documents.get(id);
+    if (document && this.queue.getJob(id)?.status === 'paused') {
+      document.status = 'pending';
+      this.saveDocuments();
+      this.notifyUpdate();
+    }
+  }
 
-This is a placeholder for DOCX content extraction.
-To enable full DOCX support, integrate mammoth.js library.
+  /**
+   * Resume a paused indexing job
+   */
+  async resumeIndexing(id: string): Promise<void> {
+    await this.queue.resume(id);
+  }
 
-File size: ${(file.size / 1024).toFixed(2)} KB
-Uploaded: ${new Date().toISOString()}
+  /**
+   * Cancel a document's indexing job; cancelled uploads are discarded
+   */
+  async cancelIndexing(id: string): Promise<void> {
+    const job = this.queue.getJob(id);
+    await this.queue.cancel(id);
 
-For now, please upload .txt or .md files for best results.`;
+    const document = this.documents.get(id);
+    if (!document) return;
+    if (job?.kind === 'upload') {
+      await this.removeLocalDocument(id);
+    } else {
+      document.status = 'error';
+      document.error = 'Indexing cancelled';
+    }
+    this.saveDocuments();
+    this.notifyUpdate();
   }
 
   /**
-   * Get file type from file
+   * Retry indexing a document whose processing failed
    */
-  private getFileType(file: File): string {
-    const extension = file.name.split('.').pop()?.toLowerCase();
-    return extension || 'unknown';
+  async retryDocument(id: string): Promise<void> {
+    const document = this.documents.get(id);
+    if (!document || document.status !== 'error') return;
+
+    if (await this.queue.retry(id)) {
+      document.status = 'pending';
+    } else if (document.content) {
+      this.scheduleIndexing(id, !document.shared);
+    } else {
+      throw new Error('The original file is no longer available. Upload it again.');
+    }
+    document.error = undefined;
+    this.saveDocuments();
+    this.notifyUpdate();
   }
 
   /**
@@ -235,62 +449,324 @@ For now, please upload .txt or .md files for best results.`;
   }
 
   /**
-   * Update document content
+   * Update document content (the previous content is kept as a revision)
    */
   async updateDocument(id: string, content: string): Promise<Document> {
+    // Edited content no longer lines up with the original page boundaries
+    return this.replaceContent(id, content);
+  }
+
+  /**
+   * Get every version of a document, newest (the current content) first
+   */
+  async getVersions(id: string): Promise<DocumentRevision[]> {
+    const document = this.documents.get(id);
+    if (!document) return [];
+
+    await this.revisionsReady;
+    const revisions = await this.revisionStore.list(id);
+
+    const current: DocumentRevision = {
+      version: document.version ?? 1,
+      content: document.content,
+      pages: document.pages,
+      savedAt: document.lastUpdated,
+    };
+    return [current, ...revisions.reverse()];
+  }
+
+  /**
+   * Restore an earlier version's content as a new version and re-index it
+   */
+  async rollbackDocument(id: string, version: number): Promise<Document> {
+    await this.revisionsReady;
+    const revision = (await this.revisionStore.list(id)).find(r => r.version === version);
+    if (!revision) {
+      throw new Error('Version not found');
+    }
+    return this.replaceContent(id, revision.content, revision.pages);
+  }
+
+  /**
+   * Keep the current content as a revision, switch to new content and re-index
+   */
+  private async replaceContent(id: string, content: string, pages?: DocumentPage[]): Promise<Document> {
     const document = this.documents.get(id);
     if (!document) {
       throw new Error('Document not found');
     }
 
+    await this.recordRevision(document);
     document.content = content;
+    document.pages = pages;
     document.lastUpdated = new Date();
-    document.status = 'processing';
+    document.status = 'pending';
     this.saveDocuments();
     this.notifyUpdate();
 
-    try {
-      // Re-index the document
-      aiService.removeDocument(id);
-      await aiService.indexDocument({
+    // Re-index the document
+    await this.queue.enqueue({ id, kind: 'index', publish: true });
+    return document;
+  }
+
+  /**
+   * Move a document's current content into its revisions before it is replaced
+   */
+  private async recordRevision(document: Document): Promise<void> {
+    const version = document.version ?? 1;
+    await this.revisionsReady;
+    await this.revisionStore.put(document.id, {
+      version,
+      content: document.content,
+      pages: document.pages,
+      savedAt: document.lastUpdated,
+    });
+    await this.revisionStore.prune(document.id, MAX_REVISIONS);
+    document.version = version + 1;
+  }
+
+  /**
+   * Documents as they were at a point in time: the version current at that date,
+   * leaving out documents that did not exist yet
+   */
+  async getDocumentsAsOf(date: Date): Promise<{ id: string; title: string; content: string; fileType: string; pages?: DocumentPage[] }[]> {
+    const documents = [];
+    for (const document of this.getAllDocuments()) {
+      const revision = revisionAsOf(await this.getVersions(document.id), date);
+      if (!revision || !revision.content) continue;
+      documents.push({
         id: document.id,
         title: document.title,
-        content: document.content,
+        content: revision.content,
         fileType: document.fileType,
+        pages: revision.pages,
       });
+    }
+    return documents;
+  }
 
-      document.status = 'indexed';
-      this.saveDocuments();
-      this.notifyUpdate();
+  /**
+   * In-memory search index over the documents as they were at a point in time, for "as of"
+   * queries. The index is reused for the same date until a document changes; chunks that have
+   * not changed since come from the embedding cache. Documents deleted since are not included.
+   */
+  getSnapshotIndex(date: Date): Promise<AIService> {
+    const time = date.getTime();
+    if (this.snapshot && this.snapshot.time === time && this.snapshot.changeCount === this.changeCount) {
+      return this.snapshot.index;
+    }
+
+    // Only one snapshot is kept; a query still running on the old one has been cancelled by now
+    this.snapshot?.index
+      .then(index => index.dispose())
+      .catch(error => console.error('Error disposing snapshot index:', error));
+
+    const index = (async () => {
+      const snapshot = new AIService({ store: new MemoryVectorStore() });
+      try {
+        for (const document of await this.getDocumentsAsOf(date)) {
+          await snapshot.indexDocument(document);
+        }
+        return snapshot;
+      } catch (error) {
+        await snapshot.dispose().catch(() => {});
+        throw error;
+      }
+    })();
+    this.snapshot = { time, changeCount: this.changeCount, index };
+    // Build again next time rather than caching the failure
+    index.catch(() => {
+      if (this.snapshot?.index === index) this.snapshot = null;
+    });
+    return index;
+  }
 
-      return document;
+  /**
+   * Mirror local and shared documents: import documents added or changed on the server,
+   * drop shared documents deleted elsewhere and upload documents that only exist here
+   */
+  async syncWithServer(): Promise<void> {
+    let remoteDocuments: Document[];
+    try {
+      const response = await fetch(DOCUMENTS_API);
+      if (!response.ok) throw new Error(`Server responded with ${response.status}`);
+      remoteDocuments = (await response.json()).documents;
     } catch (error) {
-      document.status = 'error';
-      document.error = error instanceof Error ? error.message : 'Unknown error';
+      console.warn('Shared knowledge base unavailable, using local documents only:', error);
+      return;
+    }
+
+    await aiService.whenReady();
+    const remoteIds = new Set(remoteDocuments.map(doc => doc.id));
+
+    for (const document of this.getAllDocuments()) {
+      if (remoteIds.has(document.id)) continue;
+      if (document.shared) {
+        await this.removeLocalDocument(document.id);
+      } else if (document.status === 'indexed') {
+        await this.pushToServer(document);
+      }
+    }
+
+    const imports: Promise<void>[] = [];
+    for (const remote of remoteDocuments) {
+      const lastUpdated = new Date(remote.lastUpdated);
+      const local = this.documents.get(remote.id);
+      if (remote.status !== 'indexed' || (local && local.lastUpdated >= lastUpdated)) {
+        if (local) local.shared = true;
+        continue;
+      }
+
+      // A change made elsewhere becomes a new version of the local copy
+      if (local && local.content && local.content !== remote.content) {
+        try {
+          await this.recordRevision(local);
+        } catch (error) {
+          console.error('Error saving document revision:', error);
+        }
+      }
+      const document: Document = {
+        ...remote,
+        uploadedAt: new Date(remote.uploadedAt),
+        lastUpdated,
+        status: 'pending',
+        shared: true,
+        version: local?.version,
+      };
+      this.documents.set(document.id, document);
+      imports.push(this.queue.enqueue({ id: document.id, kind: 'index' }));
+    }
+
+    this.saveDocuments();
+    this.notifyUpdate();
+    await Promise.allSettled(imports);
+  }
+
+  /**
+   * Upload a document to the shared knowledge base (local copy keeps working if this fails)
+   */
+  private async pushToServer(document: Document): Promise<void> {
+    try {
+      const response = await fetch(DOCUMENTS_API, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: document.id,
+          title: document.title,
+          content: document.content,
+          fileType: document.fileType,
+          fileSize: document.fileSize,
+          uploadedAt: document.uploadedAt,
+          pages: document.pages,
+        }),
+      });
+      if (!response.ok) throw new Error(`Server responded with ${response.status}`);
+
+      // Adopt the server timestamp so the next sync does not download it again
+      const saved: Document = await response.json();
+      document.lastUpdated = new Date(saved.lastUpdated);
+      document.shared = true;
       this.saveDocuments();
-      this.notifyUpdate();
-      throw error;
+    } catch (error) {
+      console.warn('Error sharing document with the server:', error);
     }
   }
 
+  /**
+   * Remove a document from this browser only
+   */
+  private async removeLocalDocument(id: string): Promise<void> {
+    await aiService.removeDocument(id);
+    await this.revisionStore.deleteDocument(id);
+    this.legacyRevisions.delete(id);
+    this.documents.delete(id);
+  }
+
+  /**
+   * Re-index documents whose chunks were embedded with a different model than the active one
+   * (e.g. after toggling local embeddings or adding an API key)
+   */
+  async reindexStaleDocuments(): Promise<void> {
+    await aiService.whenReady();
+    await this.reindexDocuments(aiService.getStaleDocumentIds());
+  }
+
+  /**
+   * Drop the whole search index and rebuild it from the stored documents
+   */
+  async rebuildIndex(): Promise<void> {
+    await aiService.clearIndex();
+    await this.reindexDocuments(Array.from(this.documents.keys()));
+  }
+
+  /**
+   * Queue documents for re-indexing and wait until every job has finished
+   */
+  private async reindexDocuments(ids: string[]): Promise<void> {
+    const jobs = ids
+      .filter(id => this.documents.get(id)?.content)
+      .map(id => {
+        this.documents.get(id)!.status = 'pending';
+        return this.queue.enqueue({ id, kind: 'index' });
+      });
+    this.saveDocuments();
+    this.notifyUpdate();
+    await Promise.allSettled(jobs);
+  }
+
   /**
    * Delete document
    */
   deleteDocument(id: string): void {
-    aiService.removeDocument(id);
+    const document = this.documents.get(id);
+    this.queue.cancel(id).catch(error => {
+      console.error('Error cancelling indexing job:', error);
+    });
+    aiService.removeDocument(id).catch(error => {
+      console.error('Error removing document from index:', error);
+    });
+    if (document?.shared) {
+      fetch(DOCUMENTS_API, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id }),
+      }).catch(error => {
+        console.error('Error deleting shared document:', error);
+      });
+    }
+    this.revisionStore.deleteDocument(id).catch(error => {
+      console.error('Error deleting document revisions:', error);
+    });
+    this.legacyRevisions.delete(id);
     this.documents.delete(id);
     this.saveDocuments();
     this.notifyUpdate();
   }
 
   /**
-   * Clear all documents
+   * Clear all documents from this browser
+   * (shared documents stay on the server and are downloaded again on the next sync).
+   * Resolves once the indexing jobs, search index and revisions are cleared too
    */
-  clearAll(): void {
-    aiService.clearIndex();
+  async clearAll(): Promise<void> {
+    const cleared = Promise.all([
+      this.queue.clear(),
+      aiService.clearIndex(),
+      this.revisionStore.clear(),
+    ]);
+    this.legacyRevisions.clear();
     this.documents.clear();
     this.saveDocuments();
     this.notifyUpdate();
+    await cleared;
+  }
+
+  /**
+   * Number and approximate size of the stored earlier versions
+   */
+  async getRevisionStats(): Promise<{ entries: number; bytes: number }> {
+    await this.revisionsReady;
+    return this.revisionStore.getStats();
   }
 
   /**
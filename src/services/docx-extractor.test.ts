@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { htmlToMarkdown } from './docx-extractor';
+
+describe('htmlToMarkdown', () => {
+  it('converts headings and inline formatting', () => {
+    const html =
+      '<h1>Getting Started</h1>' +
+      '<p>Install the <strong>CLI</strong> and read the <em>guide</em> at <a href="https://docs.example.com">the docs</a>.</p>' +
+      '<h2><a id="_Toc1"></a>Configuration &amp; Setup</h2>' +
+      '<p>First line<br />second line</p>';
+
+    expect(htmlToMarkdown(html)).toBe(
+      '# Getting Started\n\n' +
+      'Install the **CLI** and read the *guide* at [the docs](https://docs.example.com).\n\n' +
+      '## Configuration & Setup\n\n' +
+      'First line\nsecond line'
+    );
+  });
+
+  it('converts ordered and nested lists', () => {
+    const html =
+      '<ol><li>Download</li><li>Install<ul><li>macOS</li><li>Linux</li></ul></li><li>Run</li></ol>';
+
+    expect(htmlToMarkdown(html)).toBe('1. Download\n2. Install\n  - macOS\n  - Linux\n3. Run');
+  });
+
+  it('converts tables with the first row as the header', () => {
+    const html =
+      '<table>' +
+      '<tr><td><p>Option</p></td><td><p>Default</p></td></tr>' +
+      '<tr><td><p>port</p></td><td><p>8080</p></td></tr>' +
+      '<tr><td><p>mode</p></td><td><p>a | b</p></td></tr>' +
+      '</table>';
+
+    expect(htmlToMarkdown(html)).toBe(
+      '| Option | Default |\n| --- | --- |\n| port | 8080 |\n| mode | a \\| b |'
+    );
+  });
+
+  it('drops images and empty paragraphs', () => {
+    const html = '<p><img src="data:image/png;base64,AAAA" /></p><p>Caption&#160;text</p><p> </p>';
+
+    expect(htmlToMarkdown(html)).toBe('Caption text');
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * DOCX Extractor - Converts Word documents into Markdown-like text using mammoth
+ * Headings, lists and tables are kept so chunks can cite the section they came from
+ */
+
+interface HtmlNode {
+  tag: string;
+  attrs: Record<string, string>;
+  children: (HtmlNode | string)[];
+}
+
+const VOID_TAGS = new Set(['br', 'hr', 'img']);
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Extract a DOCX file as Markdown-like text
+ */
+export async function extractDocx(data: ArrayBuffer, fileName: string): Promise<string> {
+  const { default: mammoth } = await import('mammoth');
+  // mammoth reads ArrayBuffers in the browser (and its workers) but expects a Buffer under Node.js
+  const isNode = typeof process !== 'undefined' && !!process.versions?.node;
+  const input = isNode ? { buffer: Buffer.from(data) } : { arrayBuffer: data };
+  const { value: html } = await mammoth.convertToHtml(input, { ignoreEmptyParagraphs: true });
+
+  const content = htmlToMarkdown(html);
+  if (!content.trim()) {
+    throw new Error(`No text found in "${fileName}". The document may be empty or contain only images.`);
+  }
+  return content;
+}
+
+/**
+ * Convert mammoth's HTML output into Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+  return renderBlocks(parseHtml(html))
+    .join('\n\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Parse the small, well-formed HTML subset mammoth emits into a tree
+ */
+function parseHtml(html: string): HtmlNode {
+  const root: HtmlNode = { tag: 'root', attrs: {}, children: [] };
+  const stack: HtmlNode[] = [root];
+  const tokenPattern = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z0-9]+)([^>]*?)(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(html)) !== null) {
+    const [, closing, rawTag, rawAttrs, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (text !== undefined) {
+      current.children.push(decodeEntities(text));
+      continue;
+    }
+    if (!rawTag) continue;
+
+    const tag = rawTag.toLowerCase();
+    if (closing) {
+      const index = stack.map(node => node.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const attrs: Record<string, string> = {};
+    for (const [, name, value] of rawAttrs.matchAll(/([^\s=]+)="([^"]*)"/g)) {
+      attrs[name.toLowerCase()] = decodeEntities(value);
+    }
+
+    const node: HtmlNode = { tag, attrs, children: [] };
+    current.children.push(node);
+    if (!selfClosing && !VOID_TAGS.has(tag)) {
+      stack.push(node);
+    }
+  }
+
+  return root;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X'
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+      return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Render block-level children (headings, paragraphs, lists, tables)
+ */
+function renderBlocks(node: HtmlNode): string[] {
+  const blocks: string[] = [];
+
+  for (const child of node.children) {
+    if (typeof child === 'string') {
+      const text = collapseWhitespace(child);
+      if (text) blocks.push(text);
+      continue;
+    }
+
+    const heading = /^h([1-6])$/.exec(child.tag);
+    if (heading) {
+      const text = renderInline(child).replace(/\n+/g, ' ').trim();
+      if (text) blocks.push(`${'#'.repeat(Number(heading[1]))} ${text}`);
+    } else if (child.tag === 'p') {
+      const text = renderInline(child).trim();
+      if (text) blocks.push(text);
+    } else if (child.tag === 'ul' || child.tag === 'ol') {
+      blocks.push(renderList(child, 0));
+    } else if (child.tag === 'table') {
+      const table = renderTable(child);
+      if (table) blocks.push(table);
+    } else if (child.tag === 'hr') {
+      blocks.push('---');
+    } else {
+      blocks.push(...renderBlocks(child));
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Render inline content (emphasis, links, line breaks)
+ */
+function renderInline(node: HtmlNode): string {
+  let text = '';
+
+  for (const child of node.children) {
+    if (typeof child === 'string') {
+      text += child.replace(/\s+/g, ' ');
+      continue;
+    }
+
+    const inner = () => renderInline(child);
+    switch (child.tag) {
+      case 'br':
+        text += '\n';
+        break;
+      case 'img':
+        break;
+      case 'strong':
+      case 'b': {
+        const value = inner().trim();
+        if (value) text += `**${value}**`;
+        break;
+      }
+      case 'em':
+      case 'i': {
+        const value = inner().trim();
+        if (value) text += `*${value}*`;
+        break;
+      }
+      case 'a': {
+        const value = inner();
+        const href = child.attrs.href;
+        text += href && !href.startsWith('#') ? `[${value}](${href})` : value;
+        break;
+      }
+      default:
+        text += inner();
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Render a (possibly nested) list with two-space indentation per level
+ */
+function renderList(list: HtmlNode, depth: number): string {
+  const lines: string[] = [];
+  const indent = '  '.repeat(depth);
+  let index = 0;
+
+  for (const item of list.children) {
+    if (typeof item === 'string' || item.tag !== 'li') continue;
+    index++;
+
+    const marker = list.tag === 'ol' ? `${index}.` : '-';
+    const inlineParts: HtmlNode = { tag: 'li', attrs: {}, children: [] };
+    const nested: HtmlNode[] = [];
+
+    for (const child of item.children) {
+      if (typeof child !== 'string' && (child.tag === 'ul' || child.tag === 'ol')) {
+        nested.push(child);
+      } else {
+        inlineParts.children.push(child);
+      }
+    }
+
+    const text = renderInline(inlineParts).replace(/\s*\n\s*/g, ' ').trim();
+    lines.push(`${indent}${marker} ${text}`);
+    nested.forEach(sublist => lines.push(renderList(sublist, depth + 1)));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a table as a Markdown pipe table, treating the first row as the header
+ */
+function renderTable(table: HtmlNode): string {
+  const rows: string[][] = [];
+
+  const collectRows = (node: HtmlNode) => {
+    for (const child of node.children) {
+      if (typeof child === 'string') continue;
+      if (child.tag === 'tr') {
+        rows.push(
+          child.children
+            .filter((cell): cell is HtmlNode => typeof cell !== 'string' && (cell.tag === 'td' || cell.tag === 'th'))
+            .map(cell => renderBlocks(cell).join(' ').replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim())
+        );
+      } else {
+        collectRows(child);
+      }
+    }
+  };
+  collectRows(table);
+
+  if (rows.length === 0) return '';
+
+  const columns = Math.max(...rows.map(row => row.length));
+  const formatRow = (row: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => row[i] || '').join(' | ')} |`;
+
+  return [
+    formatRow(rows[0]),
+    `| ${Array.from({ length: columns }, () => '---').join(' | ')} |`,
+    ...rows.slice(1).map(formatRow),
+  ].join('\n');
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
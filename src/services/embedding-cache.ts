@@ -0,0 +1,202 @@
+/**
+ * Embedding Cache - Embeddings keyed by embedding model and SHA-256 of the chunk text
+ * Lets re-indexing skip chunks whose text has not changed; the least recently used
+ * entries are evicted once the cache outgrows its size limit
+ */
+
+import {
+  EMBEDDINGS_STORE,
+  isIndexedDBAvailable,
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+} from './indexed-db';
+
+export interface EmbeddingCacheBackend {
+  get(key: string): Promise<Float32Array | undefined>;
+  put(key: string, embedding: Float32Array): Promise<void>;
+  clear(): Promise<void>;
+  getStats(): Promise<{ entries: number; bytes: number }>;
+}
+
+// Size the cache may grow to before evicting, and the share of it kept after evicting
+export const MAX_CACHE_BYTES = 64 * 1024 * 1024;
+export const EVICT_TO_SHARE = 0.9;
+
+interface StoredEmbedding {
+  key: string;
+  embedding: Float32Array;
+  bytes: number;
+  // Last time the entry was written or read, for least-recently-used eviction
+  usedAt: number;
+}
+
+export function getEntryBytes(key: string, embedding: Float32Array): number {
+  return key.length * 2 + embedding.byteLength;
+}
+
+/**
+ * Cache key for a chunk, or null when hashing is unavailable (insecure browser contexts)
+ */
+export async function getEmbeddingCacheKey(model: string, text: string): Promise<string | null> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  const hash = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${model}:${hash}`;
+}
+
+/**
+ * Embedding cache kept only in memory (server rendering, tests, browsers without IndexedDB)
+ */
+export class MemoryEmbeddingCache implements EmbeddingCacheBackend {
+  // Kept in least-recently-used order
+  private embeddings: Map<string, Float32Array> = new Map();
+  private bytes = 0;
+
+  constructor(private maxBytes = MAX_CACHE_BYTES) {}
+
+  async get(key: string): Promise<Float32Array | undefined> {
+    const embedding = this.embeddings.get(key);
+    if (embedding) {
+      this.embeddings.delete(key);
+      this.embeddings.set(key, embedding);
+    }
+    return embedding;
+  }
+
+  async put(key: string, embedding: Float32Array): Promise<void> {
+    const existing = this.embeddings.get(key);
+    if (existing) this.bytes -= getEntryBytes(key, existing);
+    this.embeddings.delete(key);
+    this.embeddings.set(key, embedding);
+    this.bytes += getEntryBytes(key, embedding);
+
+    if (this.bytes <= this.maxBytes) return;
+    for (const [oldKey, oldEmbedding] of this.embeddings) {
+      if (this.bytes <= this.maxBytes * EVICT_TO_SHARE) break;
+      this.embeddings.delete(oldKey);
+      this.bytes -= getEntryBytes(oldKey, oldEmbedding);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.embeddings.clear();
+    this.bytes = 0;
+  }
+
+  async getStats(): Promise<{ entries: number; bytes: number }> {
+    return { entries: this.embeddings.size, bytes: this.bytes };
+  }
+}
+
+/**
+ * Embedding cache persisted in IndexedDB
+ */
+export class IndexedDBEmbeddingCache implements EmbeddingCacheBackend {
+  // Running total of the entries' sizes, summed from the size index on first use
+  private totalBytes: Promise<number> | null = null;
+
+  constructor(private maxBytes = MAX_CACHE_BYTES) {}
+
+  /**
+   * Return an entry and mark it as just used
+   */
+  async get(key: string): Promise<Float32Array | undefined> {
+    const db = await openDatabase();
+    const transaction = db.transaction(EMBEDDINGS_STORE, 'readwrite');
+    const store = transaction.objectStore(EMBEDDINGS_STORE);
+    const entry = await requestToPromise(store.get(key)) as StoredEmbedding | undefined;
+    if (entry) store.put({ ...entry, usedAt: Date.now() });
+    await transactionDone(transaction);
+    return entry?.embedding;
+  }
+
+  async put(key: string, embedding: Float32Array): Promise<void> {
+    const bytes = getEntryBytes(key, embedding);
+    const db = await openDatabase();
+    const transaction = db.transaction(EMBEDDINGS_STORE, 'readwrite');
+    const store = transaction.objectStore(EMBEDDINGS_STORE);
+    const existing = await requestToPromise(store.count(key));
+    store.put({ key, embedding, bytes, usedAt: Date.now() } satisfies StoredEmbedding);
+    await transactionDone(transaction);
+
+    if (existing === 0) await this.addBytes(bytes);
+    if (await this.getTotalBytes() > this.maxBytes) await this.evict();
+  }
+
+  async clear(): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(EMBEDDINGS_STORE, 'readwrite');
+    transaction.objectStore(EMBEDDINGS_STORE).clear();
+    await transactionDone(transaction);
+    this.totalBytes = Promise.resolve(0);
+  }
+
+  async getStats(): Promise<{ entries: number; bytes: number }> {
+    const db = await openDatabase();
+    const transaction = db.transaction(EMBEDDINGS_STORE, 'readonly');
+    const entries = await requestToPromise(transaction.objectStore(EMBEDDINGS_STORE).count());
+    return { entries, bytes: await this.getTotalBytes() };
+  }
+
+  /**
+   * Sum the entry sizes by walking the size index's keys, which leaves the vectors unread
+   */
+  private getTotalBytes(): Promise<number> {
+    if (!this.totalBytes) {
+      this.totalBytes = (async () => {
+        const db = await openDatabase();
+        const transaction = db.transaction(EMBEDDINGS_STORE, 'readonly');
+        const request = transaction.objectStore(EMBEDDINGS_STORE).index('bytes').openKeyCursor();
+        let total = 0;
+        await new Promise<void>((resolve, reject) => {
+          request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return resolve();
+            total += cursor.key as number;
+            cursor.continue();
+          };
+          request.onerror = () => reject(request.error);
+        });
+        return total;
+      })().catch(error => {
+        this.totalBytes = null;
+        throw error;
+      });
+    }
+    return this.totalBytes;
+  }
+
+  private async addBytes(delta: number): Promise<void> {
+    const total = await this.getTotalBytes();
+    this.totalBytes = Promise.resolve(total + delta);
+  }
+
+  /**
+   * Delete the least recently used entries until the cache is back under its limit
+   */
+  private async evict(): Promise<void> {
+    let total = await this.getTotalBytes();
+    const target = this.maxBytes * EVICT_TO_SHARE;
+
+    const db = await openDatabase();
+    const transaction = db.transaction(EMBEDDINGS_STORE, 'readwrite');
+    const request = transaction.objectStore(EMBEDDINGS_STORE).index('usedAt').openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || total <= target) return;
+      total -= (cursor.value as StoredEmbedding).bytes;
+      cursor.delete();
+      cursor.continue();
+    };
+    await transactionDone(transaction);
+    this.totalBytes = Promise.resolve(total);
+  }
+}
+
+/**
+ * Create the default backend for the current environment
+ */
+export function createDefaultEmbeddingCache(): EmbeddingCacheBackend {
+  return isIndexedDBAvailable() ? new IndexedDBEmbeddingCache() : new MemoryEmbeddingCache();
+}
@@ -0,0 +1,27 @@
+import { bench, describe } from 'vitest';
+import { HnswIndex } from './hnsw-index';
+import { bruteForceSearch, createCenters, createClusteredVectors, createRandom, K } from './hnsw-index.fixtures';
+
+const VECTOR_COUNT = 5000;
+const QUERY_COUNT = 100;
+
+describe(`top-${K} search over ${VECTOR_COUNT} vectors`, () => {
+  const random = createRandom(42);
+  const centers = createCenters(random);
+  const vectors = createClusteredVectors(VECTOR_COUNT, random, centers);
+  const queries = createClusteredVectors(QUERY_COUNT, random, centers);
+
+  const index = new HnswIndex();
+  vectors.forEach((vector, i) => index.add(String(i), vector));
+
+  let next = 0;
+  const nextQuery = () => queries[next++ % QUERY_COUNT];
+
+  bench('HNSW', () => {
+    index.search(nextQuery(), K);
+  });
+
+  bench('brute force', () => {
+    bruteForceSearch(vectors, nextQuery(), K);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * HNSW fixtures - Deterministic clustered vectors shared by the HNSW tests and benchmark
+ */
+import { cosineSimilarity } from './vector-math';
+
+export const DIMENSIONS = 128;
+export const CLUSTER_COUNT = 50;
+export const K = 10;
+
+/**
+ * Deterministic pseudo-random numbers (mulberry32) so every run uses the same data
+ */
+export function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function createCenters(random: () => number): Float32Array[] {
+  return Array.from({ length: CLUSTER_COUNT }, () =>
+    Float32Array.from({ length: DIMENSIONS }, () => random() * 2 - 1)
+  );
+}
+
+/**
+ * Vectors scattered around cluster centers, which resembles how document embeddings group by topic
+ */
+export function createClusteredVectors(count: number, random: () => number, centers: Float32Array[]): Float32Array[] {
+  return Array.from({ length: count }, () => {
+    const center = centers[Math.floor(random() * centers.length)];
+    return Float32Array.from(center, value => value + (random() - 0.5) * 0.8);
+  });
+}
+
+export function bruteForceSearch(vectors: Float32Array[], query: Float32Array, k: number): string[] {
+  return vectors
+    .map((vector, i) => ({ id: String(i), score: cosineSimilarity(query, vector) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map(match => match.id);
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { HnswIndex } from './hnsw-index';
+import { cosineSimilarity } from './vector-math';
+import { bruteForceSearch, createCenters, createClusteredVectors, createRandom, K } from './hnsw-index.fixtures';
+
+// Enough vectors for the graph to need several layers while the suite stays quick;
+// latency against a full scan is measured by hnsw-index.bench.ts
+const VECTOR_COUNT = 600;
+const QUERY_COUNT = 40;
+
+describe('HnswIndex', () => {
+  const random = createRandom(42);
+  const centers = createCenters(random);
+  const vectors = createClusteredVectors(VECTOR_COUNT, random, centers);
+  const queries = createClusteredVectors(QUERY_COUNT, random, centers);
+
+  it('matches brute-force search with high recall', () => {
+    const index = new HnswIndex({ random: createRandom(7) });
+    vectors.forEach((vector, i) => index.add(String(i), vector));
+
+    let found = 0;
+    for (const query of queries) {
+      const expected = bruteForceSearch(vectors, query, K);
+      const actual = new Set(index.search(query, K).map(match => match.id));
+      found += expected.filter(id => actual.has(id)).length;
+    }
+
+    expect(found / (QUERY_COUNT * K)).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('keeps recall after removing vectors', () => {
+    const index = new HnswIndex({ random: createRandom(7) });
+    const subset = vectors.slice(0, VECTOR_COUNT / 2);
+    subset.forEach((vector, i) => index.add(String(i), vector));
+
+    // Remove every other vector, then compare against a scan of what is left
+    const remaining = new Map<string, Float32Array>();
+    subset.forEach((vector, i) => {
+      if (i % 2 === 0) index.remove(String(i));
+      else remaining.set(String(i), vector);
+    });
+    expect(index.size).toBe(remaining.size);
+
+    let found = 0;
+    for (const query of queries) {
+      const expected = Array.from(remaining)
+        .map(([id, vector]) => ({ id, score: cosineSimilarity(query, vector) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, K)
+        .map(match => match.id);
+      const actual = index.search(query, K).map(match => match.id);
+
+      expect(actual.every(id => remaining.has(id))).toBe(true);
+      found += expected.filter(id => actual.includes(id)).length;
+    }
+
+    expect(found / (QUERY_COUNT * K)).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('replaces a vector added twice under the same ID', () => {
+    const index = new HnswIndex();
+    index.add('a', [1, 0]);
+    index.add('b', [0, 1]);
+    index.add('a', [0, 1]);
+
+    expect(index.size).toBe(2);
+    expect(index.search([0, 1], 2).map(match => Math.round(match.score))).toEqual([1, 1]);
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * HNSW Index - Approximate nearest-neighbor search over embeddings by cosine similarity
+ * Hierarchical navigable small world graph (Malkov & Yashunin) that supports incremental
+ * inserts and deletes, so it can follow the document index as documents change
+ */
+
+export interface HnswMatch {
+  id: string;
+  score: number;
+}
+
+export interface HnswOptions {
+  // Links per node on the upper layers (twice as many on layer 0)
+  m: number;
+  // Candidate list size while inserting; higher builds a better graph more slowly
+  efConstruction: number;
+  // Candidate list size while searching; higher trades speed for recall
+  efSearch: number;
+  // Source of node levels, in [0, 1); tests pass a seeded generator for a reproducible graph
+  random: () => number;
+}
+
+export const DEFAULT_HNSW_OPTIONS: HnswOptions = {
+  m: 12,
+  efConstruction: 64,
+  efSearch: 64,
+  random: Math.random,
+};
+
+// Removed nodes stay in the graph (still routing searches) until they outnumber this share of live ones
+const MAX_DELETED_RATIO = 0.25;
+
+interface HnswNode {
+  id: string;
+  // Unit-length copy of the vector, so cosine similarity is a dot product
+  vector: Float32Array;
+  // Linked nodes per layer, from layer 0 up to the node's level
+  neighbors: HnswNode[][];
+  // Search pass that last visited the node (cheaper than a visited set per search)
+  visitedIn: number;
+  deleted: boolean;
+}
+
+interface Candidate {
+  node: HnswNode;
+  score: number;
+}
+
+/**
+ * Binary heap ordered by a comparator (the root is the item that sorts first)
+ */
+class Heap<T> {
+  private items: T[] = [];
+
+  constructor(private before: (a: T, b: T) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let first = i;
+        if (left < items.length && this.before(items[left], items[first])) first = left;
+        if (right < items.length && this.before(items[right], items[first])) first = right;
+        if (first === i) break;
+        [items[i], items[first]] = [items[first], items[i]];
+        i = first;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const unit = Float32Array.from(vector);
+  let norm = 0;
+  for (let i = 0; i < unit.length; i++) norm += unit[i] * unit[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < unit.length; i++) unit[i] /= norm;
+  }
+  return unit;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) return 0;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * HNSW Index Class
+ */
+export class HnswIndex {
+  // Live nodes only; deleted ones are reachable through links until the next rebuild
+  private nodes: Map<string, HnswNode> = new Map();
+  private deletedCount = 0;
+  private entryPoint: HnswNode | null = null;
+  private options: HnswOptions;
+  private levelMultiplier: number;
+  private searchPass = 0;
+
+  constructor(options: Partial<HnswOptions> = {}) {
+    this.options = { ...DEFAULT_HNSW_OPTIONS, ...options };
+    this.levelMultiplier = 1 / Math.log(this.options.m);
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  /**
+   * Add (or replace) a vector
+   */
+  add(id: string, vector: ArrayLike<number>): void {
+    this.remove(id);
+
+    const level = Math.floor(-Math.log(1 - this.options.random()) * this.levelMultiplier);
+    const node: HnswNode = {
+      id,
+      vector: normalize(vector),
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      visitedIn: 0,
+      deleted: false,
+    };
+    this.nodes.set(id, node);
+
+    if (!this.entryPoint) {
+      this.entryPoint = node;
+      return;
+    }
+
+    const topLevel = this.levelOf(this.entryPoint);
+    let entries = [this.toCandidate(node.vector, this.entryPoint)];
+
+    // Greedy descent through the layers above the new node
+    for (let layer = topLevel; layer > level; layer--) {
+      entries = this.searchLayer(node.vector, entries, 1, layer);
+    }
+
+    // Link the node on every layer it lives on
+    for (let layer = Math.min(level, topLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(node.vector, entries, this.options.efConstruction, layer);
+      const selected = this.selectNeighbors(candidates.filter(candidate => !candidate.node.deleted), this.maxLinks(layer));
+
+      for (const { node: neighbor } of selected) {
+        node.neighbors[layer].push(neighbor);
+        neighbor.neighbors[layer].push(node);
+        if (neighbor.neighbors[layer].length > this.maxLinks(layer)) {
+          this.pruneLinks(neighbor, layer);
+        }
+      }
+      entries = candidates;
+    }
+
+    if (level > topLevel) {
+      this.entryPoint = node;
+    }
+  }
+
+  /**
+   * Remove a vector. It keeps routing searches until enough removals pile up to rebuild the graph.
+   */
+  remove(id: string): void {
+    const removed = this.nodes.get(id);
+    if (!removed) return;
+    this.nodes.delete(id);
+    removed.deleted = true;
+    this.deletedCount++;
+
+    if (this.nodes.size === 0) {
+      this.clear();
+    } else if (this.deletedCount > this.nodes.size * MAX_DELETED_RATIO) {
+      this.rebuild();
+    }
+  }
+
+  clear(): void {
+    this.nodes.clear();
+    this.entryPoint = null;
+    this.deletedCount = 0;
+  }
+
+  /**
+   * Re-insert the live nodes into a fresh graph, dropping deleted ones
+   */
+  private rebuild(): void {
+    const live = Array.from(this.nodes.values());
+    this.clear();
+    live.forEach(node => this.add(node.id, node.vector));
+  }
+
+  /**
+   * Find the (approximately) k most similar vectors, most similar first
+   */
+  search(query: ArrayLike<number>, k: number, ef: number = this.options.efSearch): HnswMatch[] {
+    if (!this.entryPoint || k <= 0) return [];
+
+    const vector = normalize(query);
+    let entries = [this.toCandidate(vector, this.entryPoint)];
+    for (let layer = this.levelOf(this.entryPoint); layer > 0; layer--) {
+      entries = this.searchLayer(vector, entries, 1, layer);
+    }
+
+    return this.searchLayer(vector, entries, Math.max(ef, k), 0)
+      .filter(({ node }) => !node.deleted)
+      .slice(0, k)
+      .map(({ node, score }) => ({ id: node.id, score }));
+  }
+
+  private levelOf(node: HnswNode): number {
+    return node.neighbors.length - 1;
+  }
+
+  private maxLinks(layer: number): number {
+    return layer === 0 ? this.options.m * 2 : this.options.m;
+  }
+
+  private toCandidate(vector: Float32Array, node: HnswNode): Candidate {
+    return { node, score: dot(vector, node.vector) };
+  }
+
+  /**
+   * Best-first search of one layer; returns up to ef candidates, most similar first
+   */
+  private searchLayer(vector: Float32Array, entries: Candidate[], ef: number, layer: number): Candidate[] {
+    const pass = ++this.searchPass;
+    entries.forEach(entry => {
+      entry.node.visitedIn = pass;
+    });
+    // Most similar unexplored candidate first
+    const frontier = new Heap<Candidate>((a, b) => a.score > b.score);
+    // Least similar result first, so the worst can be evicted
+    const results = new Heap<Candidate>((a, b) => a.score < b.score);
+
+    entries.forEach(entry => {
+      frontier.push(entry);
+      results.push(entry);
+      if (results.size > ef) results.pop();
+    });
+
+    while (frontier.size > 0) {
+      const current = frontier.pop()!;
+      if (results.size >= ef && current.score < results.peek()!.score) break;
+
+      for (const neighbor of current.node.neighbors[layer] || []) {
+        if (neighbor.visitedIn === pass) continue;
+        neighbor.visitedIn = pass;
+
+        const candidate = this.toCandidate(vector, neighbor);
+        if (results.size < ef || candidate.score > results.peek()!.score) {
+          frontier.push(candidate);
+          results.push(candidate);
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Pick up to `count` neighbors, preferring ones that are not already reachable through a closer
+   * pick (keeps links spread across clusters), then topping up with the closest of the rest
+   */
+  private selectNeighbors(candidates: Candidate[], count: number): Candidate[] {
+    const selected: Candidate[] = [];
+    const skipped: Candidate[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= count) break;
+      const diverse = selected.every(pick => candidate.score > dot(candidate.node.vector, pick.node.vector));
+      (diverse ? selected : skipped).push(candidate);
+    }
+    for (const candidate of skipped) {
+      if (selected.length >= count) break;
+      selected.push(candidate);
+    }
+
+    return selected;
+  }
+
+  /**
+   * Trim a node's links on a layer back to the maximum, dropping links to deleted nodes first
+   */
+  private pruneLinks(node: HnswNode, layer: number): void {
+    const candidates = node.neighbors[layer]
+      .filter(neighbor => !neighbor.deleted)
+      .map(neighbor => this.toCandidate(node.vector, neighbor))
+      .sort((a, b) => b.score - a.score);
+
+    node.neighbors[layer] = this.selectNeighbors(candidates, this.maxLinks(layer)).map(({ node: neighbor }) => neighbor);
+  }
+}
@@ -3,4 +3,7 @@
  */
 
 export * from './ai-service';
+export * from './llm-providers';
+export * from './settings-service';
 export * from './document-service';
+export * from './data-management-service';
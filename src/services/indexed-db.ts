@@ -0,0 +1,113 @@
+/**
+ * IndexedDB helpers - Shared database connection for browser-side persistence
+ */
+
+const DB_NAME = 'docu-query';
+const DB_VERSION = 5;
+
+export const CHUNKS_STORE = 'chunks';
+export const EMBEDDINGS_STORE = 'embeddings';
+export const JOBS_STORE = 'jobs';
+export const REVISIONS_STORE = 'revisions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Check whether IndexedDB is available in the current environment
+ */
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Open (and upgrade, if needed) the application database
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        // Version 4 added last-use times and sizes to cached embeddings; older entries are dropped
+        if (event.oldVersion < 4 && db.objectStoreNames.contains(EMBEDDINGS_STORE)) {
+          db.deleteObjectStore(EMBEDDINGS_STORE);
+        }
+        if (!db.objectStoreNames.contains(CHUNKS_STORE)) {
+          const chunks = db.createObjectStore(CHUNKS_STORE, { keyPath: 'id' });
+          chunks.createIndex('documentId', 'documentId', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(EMBEDDINGS_STORE)) {
+          const embeddings = db.createObjectStore(EMBEDDINGS_STORE, { keyPath: 'key' });
+          embeddings.createIndex('usedAt', 'usedAt', { unique: false });
+          embeddings.createIndex('bytes', 'bytes', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(JOBS_STORE)) {
+          db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(REVISIONS_STORE)) {
+          db.createObjectStore(REVISIONS_STORE, { keyPath: ['documentId', 'version'] });
+        }
+      };
+
+      let blocked = false;
+      // Another tab still holds an older version open and did not close it for the upgrade
+      request.onblocked = () => {
+        blocked = true;
+        dbPromise = null;
+        reject(new Error(
+          'The local database could not be upgraded because this app is open in another tab. Close the other tabs and reload the page.'
+        ));
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // The caller was already told the open failed; let the next attempt open its own connection
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Step aside when a newer build in another tab upgrades the database
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Resolve with the result of an IndexedDB request
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve once a transaction commits, reject if it errors or aborts
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+/**
+ * Check whether an error was caused by running out of storage quota
+ */
+export function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
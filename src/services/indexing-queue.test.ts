@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest';
+import { IndexingQueue, MemoryJobStore, type IndexingJob, type IndexingJobRunner } from './indexing-queue';
+import type { UploadProgress } from './document-service';
+
+interface RunnerCall {
+  job: IndexingJob;
+  signal: AbortSignal;
+  onProgress: (progress: UploadProgress) => void;
+  finish: () => void;
+  fail: (error: Error) => void;
+}
+
+/**
+ * Runner whose jobs finish only when a test says so; aborted jobs reject like real indexing does
+ */
+function createRunner() {
+  const calls: RunnerCall[] = [];
+  const runner: IndexingJobRunner = (job, signal, onProgress) =>
+    new Promise<void>((resolve, reject) => {
+      calls.push({ job, signal, onProgress, finish: resolve, fail: reject });
+      signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    });
+  return { runner, calls };
+}
+
+// Let queued promise callbacks (saves, the next job starting) run
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function createQueue(store = new MemoryJobStore()) {
+  const { runner, calls } = createRunner();
+  const queue = new IndexingQueue(store, runner);
+  return { queue, calls, store };
+}
+
+describe('IndexingQueue', () => {
+  it('runs jobs one at a time in the order they were queued', async () => {
+    const { queue, calls } = createQueue();
+    const first = queue.enqueue({ id: 'a', kind: 'index' });
+    const second = queue.enqueue({ id: 'b', kind: 'index' });
+    await settle();
+
+    expect(calls.map(call => call.job.id)).toEqual(['a']);
+    expect(queue.getJob('a')!.status).toBe('running');
+    expect(queue.getJob('b')!.status).toBe('queued');
+
+    calls[0].finish();
+    await first;
+    await settle();
+    expect(queue.getJob('a')).toBeUndefined();
+    expect(calls.map(call => call.job.id)).toEqual(['a', 'b']);
+
+    calls[1].finish();
+    await second;
+    expect(queue.getJobs()).toEqual([]);
+  });
+
+  it('reports progress to the job and whoever queued it', async () => {
+    const { queue, calls } = createQueue();
+    const progress: UploadProgress[] = [];
+    const done = queue.enqueue({ id: 'a', kind: 'index' }, update => progress.push(update));
+    await settle();
+
+    const update: UploadProgress = { documentId: 'a', stage: 'embedding', progress: 50, status: 'Embedding chunks' };
+    calls[0].onProgress(update);
+    expect(progress).toEqual([update]);
+    expect(queue.getJob('a')!.progress).toEqual(update);
+
+    calls[0].finish();
+    await done;
+  });
+
+  describe('pause and resume', () => {
+    it('stops a running job, runs the next one and restarts the paused job once resumed', async () => {
+      const { queue, calls } = createQueue();
+      let finished = false;
+      const first = queue.enqueue({ id: 'a', kind: 'index' }).then(() => {
+        finished = true;
+      });
+      queue.enqueue({ id: 'b', kind: 'index' });
+      await settle();
+
+      await queue.pause('a');
+      await settle();
+      expect(calls[0].signal.aborted).toBe(true);
+      expect(queue.getJob('a')!.status).toBe('paused');
+      expect(calls.map(call => call.job.id)).toEqual(['a', 'b']);
+
+      calls[1].finish();
+      await settle();
+      // Paused jobs are not picked up, and whoever queued them keeps waiting
+      expect(calls).toHaveLength(2);
+      expect(finished).toBe(false);
+
+      await queue.resume('a');
+      await settle();
+      expect(calls).toHaveLength(3);
+      expect(calls[2].job).toMatchObject({ id: 'a', attempts: 2 });
+
+      calls[2].finish();
+      await first;
+      expect(finished).toBe(true);
+    });
+
+    it('skips a paused job that has not started', async () => {
+      const { queue, calls } = createQueue();
+      queue.enqueue({ id: 'a', kind: 'index' });
+      queue.enqueue({ id: 'b', kind: 'index' });
+      await settle();
+      await queue.pause('b');
+
+      calls[0].finish();
+      await settle();
+      expect(calls).toHaveLength(1);
+      expect(queue.getJob('b')!.status).toBe('paused');
+    });
+
+    it('only resumes paused jobs', async () => {
+      const { queue } = createQueue();
+      queue.enqueue({ id: 'a', kind: 'index' });
+      await settle();
+      await queue.resume('a');
+
+      expect(queue.getJob('a')!.status).toBe('running');
+    });
+  });
+
+  describe('cancel', () => {
+    it('stops and removes a running job and rejects whoever queued it', async () => {
+      const { queue, calls, store } = createQueue();
+      const done = queue.enqueue({ id: 'a', kind: 'index' });
+      await settle();
+
+      await queue.cancel('a');
+      await expect(done).rejects.toThrow('Indexing cancelled');
+      expect(calls[0].signal.aborted).toBe(true);
+      expect(queue.getJob('a')).toBeUndefined();
+      expect(await store.loadAll()).toEqual([]);
+    });
+
+    it('clears every job', async () => {
+      const { queue } = createQueue();
+      const first = queue.enqueue({ id: 'a', kind: 'index' });
+      const second = queue.enqueue({ id: 'b', kind: 'index' });
+      await settle();
+
+      await queue.clear();
+      await expect(first).rejects.toThrow('Indexing cancelled');
+      await expect(second).rejects.toThrow('Indexing cancelled');
+      expect(queue.getJobs()).toEqual([]);
+    });
+  });
+
+  describe('failure and retry', () => {
+    it('keeps a failed job with its error and runs it again on retry', async () => {
+      const { queue, calls } = createQueue();
+      const done = queue.enqueue({ id: 'a', kind: 'index' });
+      await settle();
+
+      calls[0].fail(new Error('Embedding API returned 500'));
+      await expect(done).rejects.toThrow('Embedding API returned 500');
+      await settle();
+      expect(queue.getJob('a')).toMatchObject({ status: 'failed', error: 'Embedding API returned 500', attempts: 1 });
+
+      expect(await queue.retry('a')).toBe(true);
+      await settle();
+      expect(calls).toHaveLength(2);
+      expect(queue.getJob('a')).toMatchObject({ status: 'running', attempts: 2, error: undefined });
+
+      calls[1].finish();
+      await settle();
+      expect(queue.getJob('a')).toBeUndefined();
+    });
+
+    it('does not retry jobs that have not failed', async () => {
+      const { queue } = createQueue();
+      queue.enqueue({ id: 'a', kind: 'index' });
+      await settle();
+
+      expect(await queue.retry('a')).toBe(false);
+      expect(await queue.retry('missing')).toBe(false);
+    });
+  });
+
+  it('restarts a job queued again for the same document', async () => {
+    const { queue, calls } = createQueue();
+    const first = queue.enqueue({ id: 'a', kind: 'upload' });
+    await settle();
+
+    const second = queue.enqueue({ id: 'a', kind: 'index' });
+    await settle();
+    expect(calls[0].signal.aborted).toBe(true);
+    expect(calls[1].job.kind).toBe('index');
+
+    calls[1].finish();
+    await Promise.all([first, second]);
+  });
+
+  it('restores persisted jobs, queuing interrupted ones again, without their progress', async () => {
+    const store = new MemoryJobStore();
+    await store.put({ id: 'a', kind: 'index', status: 'running', createdAt: 1, attempts: 1 });
+    await store.put({ id: 'b', kind: 'index', status: 'paused', createdAt: 2, attempts: 0 });
+    const { queue, calls } = createQueue(store);
+
+    await queue.load();
+    await settle();
+    expect(calls.map(call => call.job.id)).toEqual(['a']);
+    expect(queue.getJob('b')!.status).toBe('paused');
+
+    calls[0].onProgress({ documentId: 'a', stage: 'embedding', progress: 10, status: 'Embedding chunks' });
+    await queue.pause('a');
+    expect((await store.loadAll()).find(job => job.id === 'a')).not.toHaveProperty('progress');
+  });
+});
@@ -0,0 +1,355 @@
+/**
+ * Indexing Queue - Persistent background queue of document indexing jobs
+ * Jobs survive reloads (uploaded files included), run one at a time and can be
+ * paused, resumed, cancelled and retried individually
+ */
+
+import type { UploadProgress } from './document-service';
+import {
+  JOBS_STORE,
+  isIndexedDBAvailable,
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+} from './indexed-db';
+
+// Types
+// 'upload' jobs index a new upload (extracting its file first); 'index' jobs re-index stored content
+export type IndexingJobKind = 'upload' | 'index';
+export type IndexingJobStatus = 'queued' | 'running' | 'paused' | 'failed';
+
+export interface IndexingJob {
+  // One job per document, keyed by the document ID
+  id: string;
+  kind: IndexingJobKind;
+  status: IndexingJobStatus;
+  // Original upload, kept until its text has been extracted
+  file?: File;
+  // Share the document with the server once it is indexed
+  publish?: boolean;
+  createdAt: number;
+  attempts: number;
+  error?: string;
+  // In-memory only; not persisted
+  progress?: UploadProgress;
+}
+
+export type IndexingJobRunner = (
+  job: IndexingJob,
+  signal: AbortSignal,
+  onProgress: (progress: UploadProgress) => void
+) => Promise<void>;
+
+export interface JobStoreBackend {
+  loadAll(): Promise<IndexingJob[]>;
+  put(job: IndexingJob): Promise<void>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+interface JobWaiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+/**
+ * Job store kept only in memory (server rendering, tests, browsers without IndexedDB)
+ */
+export class MemoryJobStore implements JobStoreBackend {
+  private jobs: Map<string, IndexingJob> = new Map();
+
+  async loadAll(): Promise<IndexingJob[]> {
+    return Array.from(this.jobs.values());
+  }
+
+  async put(job: IndexingJob): Promise<void> {
+    this.jobs.set(job.id, job);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.jobs.delete(id);
+  }
+
+  async clear(): Promise<void> {
+    this.jobs.clear();
+  }
+}
+
+/**
+ * Job store persisted in IndexedDB
+ */
+export class IndexedDBJobStore implements JobStoreBackend {
+  async loadAll(): Promise<IndexingJob[]> {
+    const db = await openDatabase();
+    const transaction = db.transaction(JOBS_STORE, 'readonly');
+    return await requestToPromise(transaction.objectStore(JOBS_STORE).getAll()) as IndexingJob[];
+  }
+
+  async put(job: IndexingJob): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(JOBS_STORE, 'readwrite');
+    transaction.objectStore(JOBS_STORE).put(job);
+    await transactionDone(transaction);
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(JOBS_STORE, 'readwrite');
+    transaction.objectStore(JOBS_STORE).delete(id);
+    await transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(JOBS_STORE, 'readwrite');
+    transaction.objectStore(JOBS_STORE).clear();
+    await transactionDone(transaction);
+  }
+}
+
+/**
+ * Create the default backend for the current environment
+ */
+export function createDefaultJobStore(): JobStoreBackend {
+  return isIndexedDBAvailable() ? new IndexedDBJobStore() : new MemoryJobStore();
+}
+
+/**
+ * Indexing Queue Class
+ */
+export class IndexingQueue {
+  private jobs: Map<string, IndexingJob> = new Map();
+  private waiters: Map<string, JobWaiter[]> = new Map();
+  private onUpdateCallbacks: Set<(jobs: IndexingJob[]) => void> = new Set();
+  private running: { id: string; controller: AbortController } | null = null;
+  // Set when the running job was replaced or paused, so its outcome is not recorded
+  private interrupted = false;
+  private ready: Promise<void> = Promise.resolve();
+
+  constructor(private store: JobStoreBackend, private runner: IndexingJobRunner) {}
+
+  /**
+   * Restore persisted jobs; jobs that were running when the page closed are queued again
+   */
+  load(): Promise<void> {
+    this.ready = (async () => {
+      try {
+        const jobs = await this.store.loadAll();
+        jobs.forEach(job => {
+          this.jobs.set(job.id, { ...job, status: job.status === 'running' ? 'queued' : job.status });
+        });
+      } catch (error) {
+        console.error('Error loading indexing jobs:', error);
+      }
+    })();
+    return this.ready.then(() => {
+      this.notifyUpdate();
+      this.processNext();
+    });
+  }
+
+  /**
+   * Notify subscribers of job updates
+   */
+  private notifyUpdate(): void {
+    const jobs = this.getJobs();
+    this.onUpdateCallbacks.forEach(callback => callback(jobs));
+  }
+
+  /**
+   * Subscribe to job updates
+   */
+  onUpdate(callback: (jobs: IndexingJob[]) => void): () => void {
+    this.onUpdateCallbacks.add(callback);
+    return () => this.onUpdateCallbacks.delete(callback);
+  }
+
+  getJobs(): IndexingJob[] {
+    return Array.from(this.jobs.values()).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  getJob(id: string): IndexingJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Add a job (replacing any job for the same document) and resolve once it has run
+   */
+  async enqueue(
+    job: Pick<IndexingJob, 'id' | 'kind' | 'file' | 'publish'>,
+    onProgress?: (progress: UploadProgress) => void
+  ): Promise<void> {
+    await this.ready;
+    const existing = this.jobs.get(job.id);
+
+    if (this.running?.id === job.id) {
+      this.interrupted = true;
+      this.running.controller.abort();
+    }
+
+    const done = new Promise<void>((resolve, reject) => {
+      this.waiters.set(job.id, [...(this.waiters.get(job.id) || []), { resolve, reject, onProgress }]);
+    });
+    await this.save({
+      id: job.id,
+      kind: job.kind,
+      file: job.file,
+      publish: job.publish || existing?.publish,
+      status: 'queued',
+      createdAt: existing?.createdAt || Date.now(),
+      attempts: 0,
+    });
+
+    this.processNext();
+    return done;
+  }
+
+  /**
+   * Drop an upload's file once its text is stored with the document
+   */
+  async markExtracted(id: string): Promise<void> {
+    const job = this.jobs.get(id);
+    if (!job?.file) return;
+    await this.save({ ...job, file: undefined });
+  }
+
+  /**
+   * Pause a queued or running job (a running job restarts from the beginning when resumed)
+   */
+  async pause(id: string): Promise<void> {
+    const job = this.jobs.get(id);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) return;
+
+    if (this.running?.id === id) {
+      this.interrupted = true;
+      this.running.controller.abort();
+    }
+    await this.save({ ...job, status: 'paused', progress: undefined });
+  }
+
+  /**
+   * Queue a paused job again
+   */
+  async resume(id: string): Promise<void> {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== 'paused') return;
+    await this.save({ ...job, status: 'queued' });
+    this.processNext();
+  }
+
+  /**
+   * Run a failed job again; returns false when there is no failed job for the document
+   */
+  async retry(id: string): Promise<boolean> {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== 'failed') return false;
+    await this.save({ ...job, status: 'queued', error: undefined });
+    this.processNext();
+    return true;
+  }
+
+  /**
+   * Remove a job, stopping it if it is running
+   */
+  async cancel(id: string): Promise<void> {
+    if (this.running?.id === id) {
+      this.interrupted = true;
+      this.running.controller.abort();
+    }
+    await this.remove(id);
+    this.settle(id, new Error('Indexing cancelled'));
+  }
+
+  /**
+   * Remove every job
+   */
+  async clear(): Promise<void> {
+    if (this.running) {
+      this.interrupted = true;
+      this.running.controller.abort();
+    }
+    const ids = Array.from(this.jobs.keys());
+    this.jobs.clear();
+    await this.store.clear();
+    ids.forEach(id => this.settle(id, new Error('Indexing cancelled')));
+    this.notifyUpdate();
+  }
+
+  /**
+   * Update a job in memory and in the store
+   */
+  private async save(job: IndexingJob): Promise<void> {
+    this.jobs.set(job.id, job);
+    this.notifyUpdate();
+    const { progress: _progress, ...persisted } = job;
+    try {
+      await this.store.put(persisted);
+    } catch (error) {
+      console.error('Error saving indexing job:', error);
+    }
+  }
+
+  private async remove(id: string): Promise<void> {
+    this.jobs.delete(id);
+    this.notifyUpdate();
+    try {
+      await this.store.delete(id);
+    } catch (error) {
+      console.error('Error removing indexing job:', error);
+    }
+  }
+
+  /**
+   * Resolve or reject everyone waiting on a job
+   */
+  private settle(id: string, error?: Error): void {
+    const waiters = this.waiters.get(id) || [];
+    this.waiters.delete(id);
+    waiters.forEach(waiter => (error ? waiter.reject(error) : waiter.resolve()));
+  }
+
+  /**
+   * Start the oldest queued job if nothing is running
+   */
+  private processNext(): void {
+    if (this.running) return;
+    const job = this.getJobs().find(candidate => candidate.status === 'queued');
+    if (!job) return;
+
+    const controller = new AbortController();
+    this.running = { id: job.id, controller };
+    this.interrupted = false;
+    this.run(job, controller).finally(() => {
+      this.running = null;
+      this.processNext();
+    });
+  }
+
+  private async run(job: IndexingJob, controller: AbortController): Promise<void> {
+    const current: IndexingJob = { ...job, status: 'running', attempts: job.attempts + 1 };
+    await this.save(current);
+
+    const onProgress = (progress: UploadProgress) => {
+      if (controller.signal.aborted) return;
+      const latest = this.jobs.get(job.id);
+      if (latest) this.jobs.set(job.id, { ...latest, progress });
+      this.notifyUpdate();
+      this.waiters.get(job.id)?.forEach(waiter => waiter.onProgress?.(progress));
+    };
+
+    try {
+      await this.runner(current, controller.signal, onProgress);
+      if (this.interrupted) return;
+      await this.remove(job.id);
+      this.settle(job.id);
+    } catch (error) {
+      // Paused, cancelled or replaced: whoever interrupted the job has already updated it
+      if (this.interrupted) return;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const latest = this.jobs.get(job.id) || current;
+      await this.save({ ...latest, status: 'failed', error: message, progress: undefined });
+      this.settle(job.id, error instanceof Error ? error : new Error(message));
+    }
+  }
+}
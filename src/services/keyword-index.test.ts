@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { fuseRankings, KeywordIndex } from './keyword-index';
+
+function createIndex(entries: Record<string, string>): KeywordIndex {
+  const index = new KeywordIndex();
+  Object.entries(entries).forEach(([id, text]) => index.add(id, text));
+  return index;
+}
+
+const ids = (matches: { id: string }[]) => matches.map(match => match.id);
+
+describe('KeywordIndex', () => {
+  it('ranks entries holding rarer query terms higher', () => {
+    const index = createIndex({
+      common: 'server config server config',
+      rare: 'server ECONNREFUSED',
+      other: 'server deploy',
+    });
+
+    // "server" appears everywhere, so only the rare error code separates the entries
+    expect(ids(index.search('server ECONNREFUSED', 10))[0]).toBe('rare');
+    expect(index.search('server', 10).every(match => match.score > 0)).toBe(true);
+    expect(index.search('ECONNREFUSED', 10)[0].score).toBeGreaterThan(index.search('server', 10)[0].score);
+  });
+
+  it('scores a term higher in a short entry than in a long one', () => {
+    const index = createIndex({
+      short: 'PORT variable',
+      long: 'PORT variable ' + Array.from({ length: 40 }, (_, i) => `filler${i}`).join(' '),
+    });
+
+    expect(ids(index.search('port', 10))).toEqual(['short', 'long']);
+  });
+
+  it('rewards repeated terms with diminishing returns', () => {
+    const index = createIndex({ once: 'deploy app', twice: 'deploy deploy', thrice: 'deploy deploy deploy', none: 'app' });
+    const [thrice, twice, once] = index.search('deploy', 10);
+
+    expect(ids([thrice, twice, once])).toEqual(['thrice', 'twice', 'once']);
+    expect(thrice.score - twice.score).toBeLessThan(twice.score - once.score);
+  });
+
+  it('forgets removed and replaced entries', () => {
+    const index = createIndex({ a: 'LOG_LEVEL debug', b: 'LOG_LEVEL info' });
+
+    index.remove('a');
+    expect(ids(index.search('debug', 10))).toEqual([]);
+    expect(ids(index.search('log_level', 10))).toEqual(['b']);
+
+    index.add('b', 'rotated daily');
+    expect(index.search('log_level', 10)).toEqual([]);
+    expect(ids(index.search('daily', 10))).toEqual(['b']);
+  });
+
+  it('matches the scores of an index that never held the removed entry', () => {
+    const index = createIndex({ a: 'retry backoff', b: 'retry limit', c: 'unrelated words here' });
+    index.remove('c');
+    const fresh = createIndex({ a: 'retry backoff', b: 'retry limit' });
+
+    expect(index.search('retry backoff', 10)).toEqual(fresh.search('retry backoff', 10));
+  });
+
+  it('limits the number of matches and handles an empty index', () => {
+    const index = createIndex({ a: 'npm', b: 'npm', c: 'npm' });
+
+    expect(index.search('npm', 2)).toHaveLength(2);
+    index.clear();
+    expect(index.search('npm', 10)).toEqual([]);
+  });
+});
+
+describe('fuseRankings', () => {
+  const vector = [{ id: 'v1' }, { id: 'both' }, { id: 'v2' }];
+  const keyword = [{ id: 'k1' }, { id: 'both' }];
+
+  it('puts entries found by both rankings first', () => {
+    expect(ids(fuseRankings(vector, keyword, 0.5, 60))[0]).toBe('both');
+  });
+
+  it('follows the vector ranking at weight 1 and the keyword ranking at weight 0', () => {
+    expect(ids(fuseRankings(vector, keyword, 1, 60))).toEqual(['v1', 'both', 'v2']);
+    expect(ids(fuseRankings(vector, keyword, 0, 60))).toEqual(['k1', 'both']);
+  });
+
+  it('breaks ties between the rankings toward the heavier one', () => {
+    const fused = ids(fuseRankings([{ id: 'v' }], [{ id: 'k' }], 0.7, 60));
+
+    expect(fused).toEqual(['v', 'k']);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Keyword Index - Inverted index with BM25 scoring
+ * Complements vector search for exact identifiers (error codes, env vars, function names)
+ */
+
+import { tokenize } from './local-embeddings';
+
+export interface KeywordMatch {
+  id: string;
+  score: number;
+}
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Keyword Index Class
+ */
+export class KeywordIndex {
+  private postings: Map<string, Map<string, number>> = new Map();
+  private lengths: Map<string, number> = new Map();
+  private entryTerms: Map<string, string[]> = new Map();
+  private totalLength = 0;
+
+  /**
+   * Add (or replace) an entry in the index
+   */
+  add(id: string, text: string): void {
+    this.remove(id);
+
+    const terms = tokenize(text);
+    const frequencies = new Map<string, number>();
+    terms.forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1));
+
+    frequencies.forEach((count, term) => {
+      if (!this.postings.has(term)) this.postings.set(term, new Map());
+      this.postings.get(term)!.set(id, count);
+    });
+
+    this.entryTerms.set(id, Array.from(frequencies.keys()));
+    this.lengths.set(id, terms.length);
+    this.totalLength += terms.length;
+  }
+
+  /**
+   * Remove an entry from the index
+   */
+  remove(id: string): void {
+    const length = this.lengths.get(id);
+    if (length === undefined) return;
+
+    for (const term of this.entryTerms.get(id) || []) {
+      const entries = this.postings.get(term);
+      if (entries?.delete(id) && entries.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.entryTerms.delete(id);
+    this.lengths.delete(id);
+    this.totalLength -= length;
+  }
+
+  /**
+   * Remove every entry
+   */
+  clear(): void {
+    this.postings.clear();
+    this.lengths.clear();
+    this.entryTerms.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Score entries against a query with BM25, best matches first
+   */
+  search(query: string, limit: number): KeywordMatch[] {
+    const count = this.lengths.size;
+    if (count === 0) return [];
+
+    const averageLength = this.totalLength / count || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(tokenize(query))) {
+      const entries = this.postings.get(term);
+      if (!entries) continue;
+
+      const idf = Math.log(1 + (count - entries.size + 0.5) / (entries.size + 0.5));
+      entries.forEach((frequency, id) => {
+        const length = this.lengths.get(id) || 0;
+        const tf = (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * (length / averageLength)));
+        scores.set(id, (scores.get(id) || 0) + idf * tf);
+      });
+    }
+
+    return Array.from(scores, ([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Fuse a vector and a keyword ranking with weighted reciprocal rank fusion, best first.
+ * `vectorWeight` (0-1) is the share given to the vector ranking; `k` damps the lead of top ranks.
+ */
+export function fuseRankings(
+  vectorRanking: { id: string }[],
+  keywordRanking: { id: string }[],
+  vectorWeight: number,
+  k: number
+): KeywordMatch[] {
+  const fused = new Map<string, number>();
+  vectorRanking.forEach(({ id }, rank) => {
+    fused.set(id, (fused.get(id) || 0) + vectorWeight / (k + rank + 1));
+  });
+  keywordRanking.forEach(({ id }, rank) => {
+    fused.set(id, (fused.get(id) || 0) + (1 - vectorWeight) / (k + rank + 1));
+  });
+
+  return Array.from(fused, ([id, score]) => ({ id, score }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score);
+}
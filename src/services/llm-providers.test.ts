@@ -0,0 +1,67 @@
+// @vitest-environment node
+// Providers also run on the server; jsdom's AbortSignal lacks throwIfAborted
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OpenAICompatibleProvider, type ProviderConfig } from './llm-providers';
+
+const CONFIG: ProviderConfig = {
+  provider: 'openai',
+  apiKey: 'sk-test',
+  baseUrl: 'https://api.example.com/v1',
+  completionModel: 'gpt-4o-mini',
+  embeddingModel: 'text-embedding-3-small',
+  apiVersion: '',
+};
+
+function embeddingsResponse(count: number): Response {
+  const data = Array.from({ length: count }, (_, index) => ({ index, embedding: [index, 1] }));
+  return new Response(JSON.stringify({ data }), { status: 200 });
+}
+
+describe('OpenAICompatibleProvider.embedBatch', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    fetchMock.mockReset();
+  });
+
+  it('retries network failures and rate-limited responses', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(new Response('', { status: 429, headers: { 'retry-after': '1' } }))
+      .mockResolvedValueOnce(embeddingsResponse(2));
+
+    const result = new OpenAICompatibleProvider(CONFIG).embedBatch(['a', 'b']);
+    await vi.runAllTimersAsync();
+
+    expect((await result).map(item => item.embedding)).toEqual([[0, 1], [1, 1]]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry other errors', async () => {
+    fetchMock.mockRejectedValueOnce(new SyntaxError('Bad URL'));
+
+    await expect(new OpenAICompatibleProvider(CONFIG).embedBatch(['a'])).rejects.toThrow('Bad URL');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting for the next attempt once the signal aborts', async () => {
+    fetchMock.mockResolvedValue(new Response('', { status: 503 }));
+    const controller = new AbortController();
+
+    const result = new OpenAICompatibleProvider(CONFIG).embedBatch(['a'], controller.signal);
+    const rejected = expect(result).rejects.toThrow('Indexing paused');
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort(new Error('Indexing paused'));
+
+    await rejected;
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1]?.signal).toBe(controller.signal);
+  });
+});
@@ -0,0 +1,450 @@
+/**
+ * LLM Providers - Completion and embedding backends behind a common interface
+ * Supports OpenAI, Azure OpenAI, Anthropic and OpenAI-compatible servers (Ollama, llama.cpp, vLLM)
+ */
+
+import type { EmbeddingResult } from './ai-service';
+import { LOCAL_EMBEDDING_MODEL } from './local-embeddings';
+import { processingClient } from './processing-client';
+
+// Types
+export type ProviderId = 'openai' | 'azure' | 'anthropic' | 'openai-compatible';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+export interface CompletionProvider {
+  readonly id: string;
+  complete(request: CompletionRequest): Promise<string>;
+  stream(request: CompletionRequest): AsyncGenerator<string>;
+  checkConnection(): Promise<boolean>;
+}
+
+export interface EmbeddingProvider {
+  /** Identifies the vector space; chunks embedded by different models are never compared */
+  readonly model: string;
+  embed(text: string): Promise<EmbeddingResult>;
+  /** Embed several texts in one request; results are in input order */
+  embedBatch(texts: string[], signal?: AbortSignal): Promise<EmbeddingResult[]>;
+}
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  apiKey: string;
+  baseUrl: string;
+  completionModel: string;
+  embeddingModel: string;
+  apiVersion: string;
+}
+
+export interface ProviderOption {
+  id: ProviderId;
+  label: string;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  defaultEmbeddingModel: string;
+  requiresApiKey: boolean;
+  supportsEmbeddings: boolean;
+}
+
+export const PROVIDER_OPTIONS: ProviderOption[] = [
+  {
+    id: 'openai',
+    label: 'OpenAI',
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    defaultModel: 'gpt-4o-mini',
+    defaultEmbeddingModel: 'text-embedding-3-small',
+    requiresApiKey: true,
+    supportsEmbeddings: true,
+  },
+  {
+    id: 'azure',
+    label: 'Azure OpenAI',
+    defaultBaseUrl: 'https://YOUR-RESOURCE.openai.azure.com',
+    defaultModel: 'gpt-4o-mini',
+    defaultEmbeddingModel: 'text-embedding-3-small',
+    requiresApiKey: true,
+    supportsEmbeddings: true,
+  },
+  {
+    id: 'anthropic',
+    label: 'Anthropic',
+    defaultBaseUrl: 'https://api.anthropic.com',
+    defaultModel: 'claude-3-5-haiku-latest',
+    defaultEmbeddingModel: LOCAL_EMBEDDING_MODEL,
+    requiresApiKey: true,
+    supportsEmbeddings: false,
+  },
+  {
+    id: 'openai-compatible',
+    label: 'OpenAI-compatible (Ollama, llama.cpp, vLLM)',
+    defaultBaseUrl: 'http://localhost:11434/v1',
+    defaultModel: 'llama3.1',
+    defaultEmbeddingModel: 'nomic-embed-text',
+    requiresApiKey: false,
+    supportsEmbeddings: true,
+  },
+];
+
+export const DEFAULT_AZURE_API_VERSION = '2024-06-01';
+
+// Retries for rate-limited (429) and failed (5xx) embedding requests
+const RETRY_CONFIG = {
+  maxRetries: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Look up the static description of a provider
+ */
+export function getProviderOption(id: ProviderId): ProviderOption {
+  return PROVIDER_OPTIONS.find(option => option.id === id) || PROVIDER_OPTIONS[0];
+}
+
+/**
+ * Read server-sent events from a streamed response body
+ */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<{ event?: string; data: string }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | undefined;
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const rawLine of lines) {
+        const line = rawLine.replace(/\r$/, '');
+        if (!line) {
+          event = undefined;
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          yield { event, data: line.slice(5).trim() };
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Wait before the next attempt, rejecting as soon as the signal aborts
+ */
+function waitForRetry(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Fetch, retrying network failures and 429 and 5xx responses with exponential backoff
+ * (honoring Retry-After). Stops between attempts once the signal aborts.
+ */
+async function fetchWithRetry(url: string, init: RequestInit, signal?: AbortSignal): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    const backoff = Math.min(RETRY_CONFIG.baseDelayMs * 2 ** attempt * (1 + Math.random() * 0.25), RETRY_CONFIG.maxDelayMs);
+
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal });
+    } catch (error) {
+      // fetch rejects with a TypeError when the network fails (and with an AbortError when aborted)
+      if (!(error instanceof TypeError) || attempt >= RETRY_CONFIG.maxRetries) throw error;
+      await waitForRetry(backoff, signal);
+      continue;
+    }
+
+    const retryable = response.status === 429 || response.status >= 500;
+    if (!retryable || attempt >= RETRY_CONFIG.maxRetries) return response;
+
+    const retryAfter = Number(response.headers.get('retry-after'));
+    await waitForRetry(retryAfter > 0 ? Math.min(retryAfter * 1000, RETRY_CONFIG.maxDelayMs) : backoff, signal);
+  }
+}
+
+async function ensureOk(response: Response, label: string): Promise<Response> {
+  if (!response.ok) {
+    throw new Error(`${label} API error: ${response.status} ${response.statusText}`);
+  }
+  return response;
+}
+
+/**
+ * OpenAI and any server exposing the OpenAI REST API (Ollama, llama.cpp, vLLM, ...)
+ */
+export class OpenAICompatibleProvider implements CompletionProvider, EmbeddingProvider {
+  constructor(protected config: ProviderConfig) {}
+
+  get id(): string {
+    return this.config.provider;
+  }
+
+  protected get label(): string {
+    return getProviderOption(this.config.provider).label;
+  }
+
+  get model(): string {
+    return this.config.embeddingModel;
+  }
+
+  protected endpoint(path: 'chat/completions' | 'embeddings' | 'models', _model: string): string {
+    return `${this.config.baseUrl.replace(/\/+$/, '')}/${path}`;
+  }
+
+  protected headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    return headers;
+  }
+
+  private chatBody(request: CompletionRequest, stream: boolean): string {
+    return JSON.stringify({
+      model: this.config.completionModel,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream,
+    });
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await fetch(this.endpoint('chat/completions', this.config.completionModel), {
+      method: 'POST',
+      headers: this.headers(),
+      body: this.chatBody(request, false),
+      signal: request.signal,
+    });
+    const data = await (await ensureOk(response, this.label)).json();
+    return data.choices[0].message.content;
+  }
+
+  async *stream(request: CompletionRequest): AsyncGenerator<string> {
+    const response = await fetch(this.endpoint('chat/completions', this.config.completionModel), {
+      method: 'POST',
+      headers: this.headers(),
+      body: this.chatBody(request, true),
+      signal: request.signal,
+    });
+    await ensureOk(response, this.label);
+    if (!response.body) throw new Error(`${this.label} API error: empty response`);
+
+    for await (const { data } of readServerSentEvents(response.body)) {
+      if (!data || data === '[DONE]') continue;
+      const token = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (token) yield token;
+    }
+  }
+
+  async embed(text: string): Promise<EmbeddingResult> {
+    const [result] = await this.embedBatch([text]);
+    return result;
+  }
+
+  async embedBatch(texts: string[], signal?: AbortSignal): Promise<EmbeddingResult[]> {
+    const response = await fetchWithRetry(this.endpoint('embeddings', this.config.embeddingModel), {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({ model: this.config.embeddingModel, input: texts }),
+    }, signal);
+    const data = await (await ensureOk(response, this.label)).json();
+    const items: { index: number; embedding: number[] }[] = data.data;
+    if (items?.length !== texts.length) {
+      throw new Error(`${this.label} API error: expected ${texts.length} embeddings, got ${items?.length ?? 0}`);
+    }
+
+    return [...items]
+      .sort((a, b) => a.index - b.index)
+      .map((item, i) => ({
+        embedding: item.embedding,
+        tokenCount: Math.ceil(texts[i].length / 4),
+        model: this.config.embeddingModel,
+      }));
+  }
+
+  async checkConnection(): Promise<boolean> {
+    try {
+      const response = await fetch(this.endpoint('models', this.config.completionModel), { headers: this.headers() });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Azure OpenAI: models are addressed by deployment name and authenticated with an api-key header
+ */
+export class AzureOpenAIProvider extends OpenAICompatibleProvider {
+  protected endpoint(path: 'chat/completions' | 'embeddings' | 'models', deployment: string): string {
+    const base = this.config.baseUrl.replace(/\/+$/, '');
+    const version = `api-version=${encodeURIComponent(this.config.apiVersion || DEFAULT_AZURE_API_VERSION)}`;
+    if (path === 'models') return `${base}/openai/models?${version}`;
+    return `${base}/openai/deployments/${encodeURIComponent(deployment)}/${path}?${version}`;
+  }
+
+  protected headers(): Record<string, string> {
+    return { 'Content-Type': 'application/json', 'api-key': this.config.apiKey };
+  }
+}
+
+/**
+ * Anthropic Messages API (completions only; it has no embeddings endpoint)
+ */
+export class AnthropicProvider implements CompletionProvider {
+  readonly id = 'anthropic';
+
+  constructor(private config: ProviderConfig) {}
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': this.config.apiKey,
+      'anthropic-version': '2023-06-01',
+      // Required when calling the API straight from the browser with the user's own key
+      'anthropic-dangerous-direct-browser-access': 'true',
+    };
+  }
+
+  private url(path: string): string {
+    return `${this.config.baseUrl.replace(/\/+$/, '')}/v1/${path}`;
+  }
+
+  private body(request: CompletionRequest, stream: boolean): string {
+    const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    return JSON.stringify({
+      model: this.config.completionModel,
+      system: system || undefined,
+      messages: request.messages.filter(m => m.role !== 'system'),
+      max_tokens: request.maxTokens,
+      temperature: Math.min(1, request.temperature),
+      stream,
+    });
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await fetch(this.url('messages'), {
+      method: 'POST',
+      headers: this.headers(),
+      body: this.body(request, false),
+      signal: request.signal,
+    });
+    const data = await (await ensureOk(response, 'Anthropic')).json();
+    return data.content
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join('');
+  }
+
+  async *stream(request: CompletionRequest): AsyncGenerator<string> {
+    const response = await fetch(this.url('messages'), {
+      method: 'POST',
+      headers: this.headers(),
+      body: this.body(request, true),
+      signal: request.signal,
+    });
+    await ensureOk(response, 'Anthropic');
+    if (!response.body) throw new Error('Anthropic API error: empty response');
+
+    for await (const { event, data } of readServerSentEvents(response.body)) {
+      if (event === 'error') throw new Error(`Anthropic API error: ${data}`);
+      if (event !== 'content_block_delta') continue;
+      const token = JSON.parse(data).delta?.text;
+      if (token) yield token;
+    }
+  }
+
+  async checkConnection(): Promise<boolean> {
+    try {
+      const response = await fetch(this.url('models'), { headers: this.headers() });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Offline hashed term-frequency embeddings (see local-embeddings.ts)
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly model = LOCAL_EMBEDDING_MODEL;
+
+  async embed(text: string): Promise<EmbeddingResult> {
+    const [result] = await this.embedBatch([text]);
+    return result;
+  }
+
+  async embedBatch(texts: string[]): Promise<EmbeddingResult[]> {
+    // Hashing runs in the processing worker, off the main thread
+    const embeddings = await processingClient.request({ type: 'embedLocal', texts });
+    return embeddings.map((embedding, i) => ({
+      embedding,
+      tokenCount: Math.ceil(texts[i].length / 4),
+      model: LOCAL_EMBEDDING_MODEL,
+    }));
+  }
+}
+
+/**
+ * Create the completion provider for a configuration, or null when it cannot be used (missing key)
+ */
+export function createCompletionProvider(config: ProviderConfig): CompletionProvider | null {
+  if (getProviderOption(config.provider).requiresApiKey && !config.apiKey) return null;
+
+  switch (config.provider) {
+    case 'azure':
+      return new AzureOpenAIProvider(config);
+    case 'anthropic':
+      return new AnthropicProvider(config);
+    case 'openai-compatible':
+    case 'openai':
+    default:
+      return new OpenAICompatibleProvider(config);
+  }
+}
+
+/**
+ * Create the embedding provider for a configuration, using local embeddings when the
+ * provider has no embeddings API or no key is configured
+ */
+export function createEmbeddingProvider(config: ProviderConfig): EmbeddingProvider {
+  const option = getProviderOption(config.provider);
+  if (!option.supportsEmbeddings || (option.requiresApiKey && !config.apiKey)) {
+    return new LocalEmbeddingProvider();
+  }
+  if (config.embeddingModel === LOCAL_EMBEDDING_MODEL) {
+    return new LocalEmbeddingProvider();
+  }
+  return config.provider === 'azure' ? new AzureOpenAIProvider(config) : new OpenAICompatibleProvider(config);
+}
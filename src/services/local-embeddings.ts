@@ -0,0 +1,103 @@
+/**
+ * Local Embeddings - Deterministic offline embeddings via feature hashing
+ * Hashes weighted word, word-bigram and character-trigram features into a fixed-size vector
+ */
+
+export const LOCAL_EMBEDDING_MODEL = 'local-hashed-tf-v1';
+export const LOCAL_EMBEDDING_DIMENSIONS = 1024;
+
+// Relative weights of the hashed feature families
+const WORD_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.2;
+
+// Common English function words carry no retrieval signal (a static stand-in for IDF)
+const STOPWORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been',
+  'before', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has',
+  'have', 'he', 'her', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my',
+  'no', 'not', 'of', 'on', 'or', 'our', 'out', 'she', 'should', 'so', 'some', 'than', 'that',
+  'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'to', 'up', 'us',
+  'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'why', 'will', 'with',
+  'would', 'you', 'your',
+]);
+
+/**
+ * Split text into lowercase word tokens. Identifiers such as OPENAI_API_KEY or
+ * getUserById also contribute their parts ("openai", "api", "key").
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const raw of text.match(/[\p{L}\p{N}_]+/gu) || []) {
+    const lower = raw.toLowerCase();
+    if (!STOPWORDS.has(lower)) tokens.push(lower);
+
+    const parts = raw
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .split(/[_\s]+/)
+      .map(part => part.toLowerCase())
+      .filter(part => part && part !== lower && !STOPWORDS.has(part));
+    tokens.push(...parts);
+  }
+
+  return tokens.map(stem);
+}
+
+/**
+ * Very light suffix stripping so "deploying", "deployed" and "deploys" share a feature
+ */
+function stem(token: string): string {
+  if (token.length <= 4 || /\d/.test(token)) return token;
+  for (const suffix of ['ing', 'ed', 'es', 's']) {
+    if (token.endsWith(suffix) && token.length - suffix.length >= 3) {
+      return token.slice(0, -suffix.length);
+    }
+  }
+  return token;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hash(feature: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    h ^= feature.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Generate an L2-normalized hashed embedding for text
+ */
+export function generateLocalEmbedding(text: string): number[] {
+  const tokens = tokenize(text);
+  const features = new Map<string, number>();
+
+  const add = (feature: string, weight: number) => {
+    features.set(feature, (features.get(feature) || 0) + weight);
+  };
+
+  tokens.forEach((token, i) => {
+    add(`w:${token}`, WORD_WEIGHT);
+    if (i > 0) add(`b:${tokens[i - 1]} ${token}`, BIGRAM_WEIGHT);
+
+    const padded = `#${token}#`;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`c:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+    }
+  });
+
+  const vector = new Array<number>(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+  features.forEach((count, feature) => {
+    const h = hash(feature);
+    // Sublinear term frequency, signed hashing to cancel out collisions
+    const weight = Math.log1p(count);
+    vector[h % LOCAL_EMBEDDING_DIMENSIONS] += (h & 0x80000000 ? -1 : 1) * weight;
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
@@ -0,0 +1,60 @@
+/**
+ * PDF fixtures - Small hand-built PDFs with positioned text for the extractor tests
+ */
+
+export interface PdfTextRun {
+  x: number;
+  y: number;
+  text: string;
+}
+
+// US Letter, in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+
+/**
+ * Build a PDF with one page per entry, drawing each run in 12pt Helvetica at its position
+ * (origin at the bottom left). Pages without runs stand in for scanned, image-only pages.
+ */
+export function buildPdf(pages: PdfTextRun[][]): ArrayBuffer {
+  const fontId = 3;
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 4 + i * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[fontId] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+
+  pages.forEach((runs, i) => {
+    const stream = runs
+      .map(run => `BT /F1 12 Tf ${run.x} ${run.y} Td (${run.text.replace(/[()\\]/g, '\\$&')}) Tj ET`)
+      .join('\n');
+    objects[pageIds[i]] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 ${fontId} 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new TextEncoder().encode(pdf).buffer as ArrayBuffer;
+}
+
+/**
+ * A page of prose lines starting near the top of the page
+ */
+export function proseLines(lines: string[], x = 72, top = 720): PdfTextRun[] {
+  return lines.map((text, i) => ({ x, y: top - i * 14, text }));
+}
@@ -0,0 +1,51 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { extractPdf } from './pdf-extractor';
+import { buildPdf, proseLines } from './pdf-extractor.fixtures';
+
+const PROSE = [
+  'Install the command line tool with npm before you start.',
+  'The server listens on port 4321 unless PORT is set.',
+];
+
+describe('extractPdf', () => {
+  it('extracts each page and records its offsets', async () => {
+    const { content, pages } = await extractPdf(buildPdf([proseLines(PROSE), proseLines(['Second page text here.'])]), 'guide.pdf');
+
+    expect(pages.map(page => page.pageNumber)).toEqual([1, 2]);
+    expect(content.slice(pages[0].startOffset, pages[0].endOffset)).toBe(PROSE.join('\n'));
+    expect(content.slice(pages[1].startOffset, pages[1].endOffset)).toBe('Second page text here.');
+  });
+
+  it('joins nearby runs on a baseline into one line', async () => {
+    const page = [{ x: 72, y: 720, text: 'Run the' }, { x: 120, y: 720, text: 'tests before pushing.' }];
+
+    expect((await extractPdf(buildPdf([page]), 'runs.pdf')).content).toBe('Run the tests before pushing.');
+  });
+
+  it('reads the left column of a two-column page before the right one', async () => {
+    const left = ['Left column one', 'Left column two', 'Left column three'];
+    const right = ['Right column one', 'Right column two', 'Right column three'];
+    const page = [
+      { x: 72, y: 740, text: 'Report Title' },
+      // Both columns share baselines, so reading straight across would interleave them
+      ...proseLines(left, 72, 700),
+      ...proseLines(right, 330, 700),
+    ];
+
+    const { content } = await extractPdf(buildPdf([page]), 'report.pdf');
+    expect(content).toBe(`Report Title\n\n${left.join('\n')}\n\n${right.join('\n')}`);
+  });
+
+  it('rejects a PDF whose pages are mostly image-only, even with some text pages', async () => {
+    const pdf = buildPdf([proseLines(PROSE), [], [], []]);
+
+    await expect(extractPdf(pdf, 'scan.pdf')).rejects.toThrow('No extractable text found on 3 of 4 pages of "scan.pdf"');
+  });
+
+  it('accepts a PDF with a few image-only pages', async () => {
+    const { pages } = await extractPdf(buildPdf([proseLines(PROSE), [], proseLines(PROSE)]), 'mixed.pdf');
+
+    expect(pages).toHaveLength(3);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * PDF Extractor - Per-page text extraction using pdf.js
+ * Rebuilds reading order (including two-column layouts) from positioned text runs
+ */
+
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { DocumentPage } from './ai-service';
+
+export interface PdfExtractionResult {
+  content: string;
+  pages: DocumentPage[];
+}
+
+// Pages with fewer readable characters than this are treated as scanned images
+const MIN_CHARS_PER_PAGE = 16;
+
+// Runs on one baseline further apart than this many line heights belong to different columns
+const COLUMN_GAP_LINE_HEIGHTS = 1.5;
+
+// Separator placed between pages in the extracted content
+const PAGE_SEPARATOR = '\n\n';
+
+interface TextLine {
+  text: string;
+  x0: number;
+  x1: number;
+  y: number;
+  height: number;
+}
+
+/**
+ * Load pdf.js lazily so it is only bundled into the upload path
+ * (Node.js needs the legacy build, which ships the required polyfills; browser workers
+ * have no `window` either, so check for Node.js itself)
+ */
+async function loadPdfJs() {
+  if (typeof process !== 'undefined' && process.versions?.node) {
+    return await import('pdfjs-dist/legacy/build/pdf.mjs');
+  }
+
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    const { default: workerSrc } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+    pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+  }
+  return pdfjs;
+}
+
+/**
+ * Extract text from every page of a PDF, preserving page boundaries as offsets
+ */
+export async function extractPdf(data: ArrayBuffer, fileName: string): Promise<PdfExtractionResult> {
+  const pdfjs = await loadPdfJs();
+  const pdf = await pdfjs.getDocument({
+    data: new Uint8Array(data),
+    useSystemFonts: true,
+    disableFontFace: true,
+    isEvalSupported: false,
+  }).promise;
+
+  try {
+    const pages: DocumentPage[] = [];
+    let content = '';
+    let imageOnlyPages = 0;
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const { width } = page.getViewport({ scale: 1 });
+      const textContent = await page.getTextContent();
+      const items = textContent.items.filter((item): item is TextItem => 'str' in item);
+      const pageText = layoutPageText(items, width);
+
+      if (pageNumber > 1) content += PAGE_SEPARATOR;
+      const startOffset = content.length;
+      content += pageText;
+      pages.push({ pageNumber, startOffset, endOffset: content.length });
+
+      if (pageText.replace(/\s/g, '').length < MIN_CHARS_PER_PAGE) imageOnlyPages++;
+      page.cleanup();
+    }
+
+    // Judged per page, so a few text pages cannot hide a mostly scanned document
+    if (imageOnlyPages > pdf.numPages / 2) {
+      throw new Error(
+        `No extractable text found on ${imageOnlyPages} of ${pdf.numPages} pages of "${fileName}". It appears to be a scanned or image-only PDF; run it through OCR and upload the result.`
+      );
+    }
+
+    return { content, pages };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Turn positioned text runs into reading-order text for a single page
+ */
+function layoutPageText(items: TextItem[], pageWidth: number): string {
+  const lines = groupIntoLines(items);
+  if (lines.length === 0) return '';
+
+  const ordered = orderColumns(lines, pageWidth);
+  let text = '';
+
+  for (let i = 0; i < ordered.length; i++) {
+    const line = ordered[i];
+    const prev = ordered[i - 1];
+
+    if (prev) {
+      const gap = prev.y - line.y;
+      const paragraphBreak = gap < 0 || gap > Math.max(prev.height, line.height) * 1.8;
+
+      if (paragraphBreak) {
+        text += '\n\n';
+      } else if (/[a-z]-$/.test(text) && /^[a-z]/.test(line.text)) {
+        // Re-join words hyphenated across a line break
+        text = text.slice(0, -1);
+      } else {
+        text += '\n';
+      }
+    }
+    text += line.text;
+  }
+
+  return text.normalize('NFKC').trim();
+}
+
+/**
+ * Cluster text runs that share a baseline into lines, ordered top to bottom
+ * (runs separated by a column gutter stay separate lines, so columns can be reordered)
+ */
+function groupIntoLines(items: TextItem[]): TextLine[] {
+  const runs = items
+    .filter(item => item.str.trim() || item.hasEOL)
+    .map(item => ({
+      str: item.str,
+      x: item.transform[4] as number,
+      y: item.transform[5] as number,
+      width: item.width,
+      height: Math.hypot(item.transform[2], item.transform[3]) || item.height || 10,
+    }))
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const lines: (TextLine & { runs: typeof runs })[] = [];
+
+  for (const run of runs) {
+    if (!run.str.trim()) continue;
+    const line = lines.find(l =>
+      Math.abs(l.y - run.y) <= Math.min(l.height, run.height) * 0.5 &&
+      Math.max(run.x - l.x1, l.x0 - (run.x + run.width)) <= Math.max(l.height, run.height) * COLUMN_GAP_LINE_HEIGHTS
+    );
+    if (line) {
+      line.runs.push(run);
+      line.x0 = Math.min(line.x0, run.x);
+      line.x1 = Math.max(line.x1, run.x + run.width);
+      line.height = Math.max(line.height, run.height);
+    } else {
+      lines.push({ text: '', x0: run.x, x1: run.x + run.width, y: run.y, height: run.height, runs: [run] });
+    }
+  }
+
+  return lines
+    .map(line => {
+      const sorted = line.runs.sort((a, b) => a.x - b.x);
+      let text = '';
+      let lastEnd = sorted[0].x;
+      for (const run of sorted) {
+        // Insert a space where runs are visibly separated but not already spaced
+        if (text && run.x - lastEnd > run.height * 0.15 && !/\s$/.test(text) && !/^\s/.test(run.str)) {
+          text += ' ';
+        }
+        text += run.str;
+        lastEnd = run.x + run.width;
+      }
+      return { text: text.replace(/\s+/g, ' ').trim(), x0: line.x0, x1: line.x1, y: line.y, height: line.height };
+    })
+    .filter(line => line.text)
+    .sort((a, b) => b.y - a.y || a.x0 - b.x0);
+}
+
+/**
+ * Detect a two-column layout and emit the left column before the right one.
+ * Full-width lines (titles, footers) act as barriers between column blocks.
+ */
+function orderColumns(lines: TextLine[], pageWidth: number): TextLine[] {
+  let gutter = -1;
+  let fewestCrossings = Infinity;
+
+  for (let x = pageWidth * 0.3; x <= pageWidth * 0.7; x += pageWidth * 0.01) {
+    const crossings = lines.filter(line => line.x0 < x && line.x1 > x).length;
+    if (crossings < fewestCrossings) {
+      fewestCrossings = crossings;
+      gutter = x;
+    }
+  }
+
+  const left = lines.filter(line => line.x1 <= gutter).length;
+  const right = lines.filter(line => line.x0 >= gutter).length;
+  const isMultiColumn = left >= 3 && right >= 3 && fewestCrossings <= lines.length * 0.2;
+
+  if (!isMultiColumn) return lines;
+
+  const ordered: TextLine[] = [];
+  let leftBlock: TextLine[] = [];
+  let rightBlock: TextLine[] = [];
+
+  const flush = () => {
+    ordered.push(...leftBlock, ...rightBlock);
+    leftBlock = [];
+    rightBlock = [];
+  };
+
+  for (const line of lines) {
+    if (line.x1 <= gutter) {
+      leftBlock.push(line);
+    } else if (line.x0 >= gutter) {
+      rightBlock.push(line);
+    } else {
+      flush();
+      ordered.push(line);
+    }
+  }
+  flush();
+
+  return ordered;
+}
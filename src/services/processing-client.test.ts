@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { registerChunkingStrategy } from './chunking';
+import { ProcessingClient } from './processing-client';
+import type { ProcessingMessage } from './processing-protocol';
+
+/**
+ * Worker that records the requests posted to it and answers each with an empty result
+ */
+class FakeWorker {
+  static posted: ProcessingMessage[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+
+  postMessage(message: ProcessingMessage) {
+    FakeWorker.posted.push(message);
+    setTimeout(() => this.onmessage?.({ data: { id: message.id, result: [] } }), 0);
+  }
+
+  terminate() {}
+}
+
+describe('ProcessingClient', () => {
+  afterEach(() => {
+    FakeWorker.posted = [];
+    vi.unstubAllGlobals();
+  });
+
+  it('sends requests to the worker', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const client = new ProcessingClient();
+
+    await client.request({ type: 'chunk', source: { content: 'Some text.', fileType: 'txt' }, options: { chunkSize: 50, overlap: 0 } });
+    expect(FakeWorker.posted.map(message => message.request.type)).toEqual(['chunk']);
+  });
+
+  it('chunks file types with a registered strategy on this thread', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    registerChunkingStrategy('client-test', {
+      split: text => [{ content: text.toUpperCase(), startOffset: 0, endOffset: text.length }],
+    });
+    const client = new ProcessingClient();
+
+    const chunks = await client.request({
+      type: 'chunk',
+      source: { content: 'shout', fileType: 'CLIENT-TEST' },
+      options: { chunkSize: 50, overlap: 0 },
+    });
+    expect(chunks).toEqual([{ content: 'SHOUT', startOffset: 0, endOffset: 5 }]);
+    expect(FakeWorker.posted).toEqual([]);
+  });
+});
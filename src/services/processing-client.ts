@@ -0,0 +1,124 @@
+/**
+ * Processing Client - Sends extraction, chunking, embedding and vector work to the processing worker
+ * Falls back to running the same code in-process where workers are unavailable (server, tests)
+ */
+
+import { hasRegisteredChunkingStrategy } from './chunking';
+import type { ProcessingCore } from './processing-core';
+import type {
+  ProcessingMessage,
+  ProcessingReply,
+  ProcessingRequest,
+  ProcessingRequestOf,
+  ProcessingRequestType,
+  ProcessingResults,
+} from './processing-protocol';
+
+interface PendingRequest {
+  request: ProcessingRequest;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Processing Client Class
+ */
+export class ProcessingClient {
+  // undefined until the first request; null when running in-process
+  private worker: Worker | null | undefined;
+  private core: Promise<ProcessingCore> | null = null;
+  private pending: Map<number, PendingRequest> = new Map();
+  private nextId = 0;
+  private onResetCallbacks: Set<() => void> = new Set();
+
+  /**
+   * Run a request in the worker (or in-process) and resolve with its result
+   */
+  request<T extends ProcessingRequestType>(request: ProcessingRequestOf<T>): Promise<ProcessingResults[T]> {
+    // Strategies registered at runtime are functions, which cannot be sent to the worker
+    const plain = request as ProcessingRequest;
+    if (plain.type === 'chunk' && hasRegisteredChunkingStrategy(plain.source.fileType)) {
+      return this.runInProcess(request);
+    }
+
+    const worker = this.getWorker();
+    if (!worker) return this.runInProcess(request);
+
+    return new Promise((resolve, reject) => {
+      const id = ++this.nextId;
+      this.pending.set(id, { request, resolve, reject });
+      const message: ProcessingMessage = { id, request };
+      worker.postMessage(message);
+    });
+  }
+
+  /**
+   * Subscribe to the worker failing; state held in it (vector indexes) is lost and must be sent again
+   */
+  onReset(callback: () => void): () => void {
+    this.onResetCallbacks.add(callback);
+    return () => this.onResetCallbacks.delete(callback);
+  }
+
+  /**
+   * Start the worker on first use
+   */
+  private getWorker(): Worker | null {
+    if (this.worker !== undefined) return this.worker;
+    this.worker = null;
+    if (typeof window === 'undefined' || typeof Worker === 'undefined') return null;
+
+    try {
+      const worker = new Worker(new URL('./processing.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<ProcessingReply>) => this.handleReply(event.data);
+      worker.onerror = (event) => {
+        console.error('Processing worker failed, continuing on the main thread:', event.message);
+        this.fallBackToMainThread();
+      };
+      this.worker = worker;
+    } catch (error) {
+      console.error('Error starting processing worker:', error);
+    }
+    return this.worker;
+  }
+
+  private handleReply(reply: ProcessingReply): void {
+    const pending = this.pending.get(reply.id);
+    if (!pending) return;
+    this.pending.delete(reply.id);
+
+    if ('error' in reply) {
+      pending.reject(new Error(reply.error));
+    } else {
+      pending.resolve(reply.result);
+    }
+  }
+
+  /**
+   * Stop using a broken worker: re-send lost state, then replay unanswered requests in-process
+   */
+  private fallBackToMainThread(): void {
+    this.worker?.terminate();
+    this.worker = null;
+
+    const pending = Array.from(this.pending.values());
+    this.pending.clear();
+    this.onResetCallbacks.forEach(callback => callback());
+    pending.forEach(({ request, resolve, reject }) => {
+      this.runInProcess(request).then(resolve, reject);
+    });
+  }
+
+  /**
+   * Load the processing code on the main thread only when it is needed there
+   */
+  private async runInProcess<T extends ProcessingRequestType>(
+    request: ProcessingRequestOf<T>
+  ): Promise<ProcessingResults[T]> {
+    this.core ||= import('./processing-core').then(({ ProcessingCore }) => new ProcessingCore());
+    return (await this.core).handle(request);
+  }
+}
+
+// Export singleton instance
+export const processingClient = new ProcessingClient();
@@ -0,0 +1,199 @@
+/**
+ * Processing Core - CPU-heavy document work: extraction, chunking, local embeddings and vector scoring
+ * Runs inside the processing worker, or in-process where workers are unavailable (server, tests)
+ */
+
+import { chunkText, type ChunkingOptions } from './chunking';
+import { extractFileContent } from './content-extractor';
+import { HnswIndex } from './hnsw-index';
+import { generateLocalEmbedding } from './local-embeddings';
+import { cosineSimilarity } from './vector-math';
+import type {
+  ChunkSource,
+  DocumentChunkSpan,
+  IndexedVector,
+  ProcessingRequest,
+  ProcessingRequestOf,
+  ProcessingRequestType,
+  ProcessingResults,
+  VectorMatch,
+} from './processing-protocol';
+
+// Indexes up to this size are scanned exactly; larger ones are searched through their HNSW graph
+const EXACT_SEARCH_MAX_VECTORS = 1000;
+// Vectors added to the graphs per slice, so searches are not held up by large loads
+const GRAPH_BUILD_SLICE = 100;
+
+interface VectorIndex {
+  vectors: Map<string, IndexedVector>;
+  // One graph per embedding model, since vectors from different models are not comparable
+  graphs: Map<string, HnswIndex>;
+  // Vectors not yet in their graph; searches scan exactly until these are inserted
+  pending: Set<string>;
+}
+
+/**
+ * Split a document into chunks using the strategy for its file type,
+ * keeping page context for citations
+ */
+export function buildChunks(source: ChunkSource, options: ChunkingOptions): DocumentChunkSpan[] {
+  // Chunk paged documents page by page so every chunk can cite its page
+  if (source.pages?.length) {
+    return source.pages.flatMap(page =>
+      chunkText(source.content.slice(page.startOffset, page.endOffset), source.fileType, options)
+        .map(chunk => ({
+          ...chunk,
+          startOffset: chunk.startOffset + page.startOffset,
+          endOffset: chunk.endOffset + page.startOffset,
+          pageNumber: page.pageNumber,
+        }))
+    );
+  }
+
+  return chunkText(source.content, source.fileType, options);
+}
+
+/**
+ * Processing Core Class
+ */
+export class ProcessingCore {
+  // Vector indexes by name
+  private indexes: Map<string, VectorIndex> = new Map();
+  private building = false;
+
+  /**
+   * Run a request and return its result
+   */
+  async handle<T extends ProcessingRequestType>(request: ProcessingRequestOf<T>): Promise<ProcessingResults[T]> {
+    return (await this.dispatch(request)) as ProcessingResults[T];
+  }
+
+  private async dispatch(request: ProcessingRequest): Promise<ProcessingResults[ProcessingRequestType]> {
+    switch (request.type) {
+      case 'extract':
+        return await extractFileContent(request.file);
+
+      case 'chunk':
+        return buildChunks(request.source, request.options);
+
+      case 'embedLocal':
+        return request.texts.map(text => generateLocalEmbedding(text));
+
+      case 'putVectors': {
+        const index = this.getIndex(request.index);
+        request.vectors.forEach(vector => {
+          this.deleteVector(index, vector.id);
+          index.vectors.set(vector.id, vector);
+          index.pending.add(vector.id);
+        });
+        this.scheduleGraphBuild();
+        return;
+      }
+
+      case 'deleteVectors': {
+        const index = this.getIndex(request.index);
+        request.ids.forEach(id => this.deleteVector(index, id));
+        return;
+      }
+
+      case 'clearVectors':
+        this.indexes.delete(request.index);
+        return;
+
+      case 'searchVectors':
+        return this.searchVectors(request);
+
+      default:
+        throw new Error(`Unknown processing request: ${(request as { type: string }).type}`);
+    }
+  }
+
+  private getIndex(name: string): VectorIndex {
+    let index = this.indexes.get(name);
+    if (!index) {
+      index = { vectors: new Map(), graphs: new Map(), pending: new Set() };
+      this.indexes.set(name, index);
+    }
+    return index;
+  }
+
+  private deleteVector(index: VectorIndex, id: string): void {
+    const existing = index.vectors.get(id);
+    if (!existing) return;
+    index.vectors.delete(id);
+    index.pending.delete(id);
+    const graph = index.graphs.get(existing.model);
+    graph?.remove(id);
+    if (graph?.size === 0) index.graphs.delete(existing.model);
+  }
+
+  /**
+   * Insert pending vectors into their graphs a slice at a time, yielding to queued requests in between
+   */
+  private scheduleGraphBuild(): void {
+    if (this.building) return;
+    this.building = true;
+
+    const buildSlice = () => {
+      let budget = GRAPH_BUILD_SLICE;
+      for (const index of this.indexes.values()) {
+        for (const id of index.pending) {
+          if (budget === 0) break;
+          budget--;
+          index.pending.delete(id);
+          const vector = index.vectors.get(id)!;
+          if (!index.graphs.has(vector.model)) index.graphs.set(vector.model, new HnswIndex());
+          index.graphs.get(vector.model)!.add(id, vector.embedding);
+        }
+      }
+
+      if (Array.from(this.indexes.values()).some(index => index.pending.size > 0)) {
+        setTimeout(buildSlice, 0);
+      } else {
+        this.building = false;
+      }
+    };
+    setTimeout(buildSlice, 0);
+  }
+
+  /**
+   * Rank the vectors of an index by cosine similarity to a query embedding
+   * (only vectors from the query's embedding model are comparable)
+   */
+  private searchVectors(
+    request: ProcessingRequestOf<'searchVectors'>
+  ): ProcessingResults['searchVectors'] {
+    const index = this.getIndex(request.index);
+    const graph = index.graphs.get(request.model);
+    const useGraph = graph && graph.size > EXACT_SEARCH_MAX_VECTORS && index.pending.size === 0;
+
+    const top = useGraph
+      ? graph.search(request.embedding, request.limit)
+      : this.exactSearch(index, request.embedding, request.model, request.limit);
+
+    const scores: Record<string, number> = {};
+    top.forEach(match => {
+      scores[match.id] = match.score;
+    });
+    request.include?.forEach(id => {
+      const vector = index.vectors.get(id);
+      if (vector?.model === request.model && scores[id] === undefined) {
+        scores[id] = cosineSimilarity(request.embedding, vector.embedding);
+      }
+    });
+
+    return { top, scores };
+  }
+
+  /**
+   * Score every vector of a model (small indexes, where a scan is cheap and exact)
+   */
+  private exactSearch(index: VectorIndex, embedding: ArrayLike<number>, model: string, limit: number): VectorMatch[] {
+    const results: VectorMatch[] = [];
+    index.vectors.forEach(vector => {
+      if (vector.model !== model) return;
+      results.push({ id: vector.id, score: cosineSimilarity(embedding, vector.embedding) });
+    });
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Processing Protocol - Typed messages exchanged with the processing worker
+ * Every request names its operation; the matching result type is looked up in ProcessingResults
+ */
+
+import type { ChunkingOptions, TextChunk } from './chunking';
+import type { ExtractedContent } from './content-extractor';
+import type { DocumentPage } from './ai-service';
+
+export interface ChunkSource {
+  content: string;
+  fileType: string;
+  pages?: DocumentPage[];
+}
+
+export type DocumentChunkSpan = TextChunk & { pageNumber?: number };
+
+export interface IndexedVector {
+  id: string;
+  embedding: Float32Array;
+  model: string;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+}
+
+// Vector operations name the index they act on, so several AIService instances can share one worker
+export type ProcessingRequest =
+  | { type: 'extract'; file: File }
+  | { type: 'chunk'; source: ChunkSource; options: ChunkingOptions }
+  | { type: 'embedLocal'; texts: string[] }
+  | { type: 'putVectors'; index: string; vectors: IndexedVector[] }
+  | { type: 'deleteVectors'; index: string; ids: string[] }
+  | { type: 'clearVectors'; index: string }
+  | {
+      type: 'searchVectors';
+      index: string;
+      embedding: ArrayLike<number>;
+      model: string;
+      limit: number;
+      // Also score these vectors even when they fall outside the top `limit`
+      include?: string[];
+    };
+
+export interface ProcessingResults {
+  extract: ExtractedContent;
+  chunk: DocumentChunkSpan[];
+  embedLocal: number[][];
+  putVectors: void;
+  deleteVectors: void;
+  clearVectors: void;
+  searchVectors: { top: VectorMatch[]; scores: Record<string, number> };
+}
+
+export type ProcessingRequestType = ProcessingRequest['type'];
+
+export type ProcessingRequestOf<T extends ProcessingRequestType> = Extract<ProcessingRequest, { type: T }>;
+
+export interface ProcessingMessage {
+  id: number;
+  request: ProcessingRequest;
+}
+
+export type ProcessingReply =
+  | { id: number; result: ProcessingResults[ProcessingRequestType] }
+  | { id: number; error: string };
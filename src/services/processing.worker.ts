@@ -0,0 +1,24 @@
+/**
+ * Processing Worker - Runs ProcessingCore off the main thread
+ * Replies to every message with its result or error, tagged with the request ID
+ */
+
+import { ProcessingCore } from './processing-core';
+import type { ProcessingMessage, ProcessingReply } from './processing-protocol';
+
+// The project compiles against the DOM library, so describe the worker scope we rely on
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ProcessingMessage>) => void) | null;
+  postMessage(reply: ProcessingReply): void;
+};
+
+const core = new ProcessingCore();
+
+scope.onmessage = async (event) => {
+  const { id, request } = event.data;
+  try {
+    scope.postMessage({ id, result: await core.handle(request) });
+  } catch (error) {
+    scope.postMessage({ id, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
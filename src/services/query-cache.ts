@@ -0,0 +1,61 @@
+/**
+ * Query Cache - In-memory cache of answered queries
+ * Entries expire after a caller-supplied age and can be dropped by the documents they cite
+ */
+
+interface CacheEntry<T> {
+  value: T;
+  documentIds: Set<string>;
+  createdAt: number;
+}
+
+/**
+ * Normalize a query so trivially different phrasings share a cache entry
+ */
+export function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[?!.]+$/, '');
+}
+
+/**
+ * Query Cache Class
+ */
+export class QueryCache<T> {
+  private entries: Map<string, CacheEntry<T>> = new Map();
+
+  /**
+   * Get a cached value younger than maxAgeMs
+   */
+  get(key: string, maxAgeMs: number): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (Date.now() - entry.createdAt > maxAgeMs) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  /**
+   * Cache a value along with the documents it was built from
+   */
+  set(key: string, value: T, documentIds: string[]): void {
+    this.entries.set(key, { value, documentIds: new Set(documentIds), createdAt: Date.now() });
+  }
+
+  /**
+   * Drop every entry that cites a document
+   */
+  invalidateDocument(documentId: string): void {
+    this.entries.forEach((entry, key) => {
+      if (entry.documentIds.has(documentId)) this.entries.delete(key);
+    });
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Reranker - Second-stage scoring of retrieved chunks before they become answer context
+ * Candidates are re-scored against the query as a pair (by the completion model, or locally),
+ * then a final set is picked with maximal marginal relevance so near-duplicates don't crowd it
+ */
+
+import { tokenize } from './local-embeddings';
+import { cosineSimilarity } from './vector-math';
+import type { CompletionProvider } from './llm-providers';
+import { parseScoreArray, scoreArrayMaxTokens } from './score-parsing';
+
+export interface RerankCandidate {
+  id: string;
+  text: string;
+}
+
+export interface Reranker {
+  readonly name: string;
+  // Relevance of each candidate to the query between 0 and 1, in candidate order
+  rerank(query: string, candidates: RerankCandidate[], signal?: AbortSignal): Promise<number[]>;
+}
+
+export interface MmrCandidate {
+  relevance: number;
+  embedding?: ArrayLike<number>;
+}
+
+// Characters of each candidate shown to the LLM re-ranker
+const LLM_PASSAGE_CHARS = 800;
+
+// Weights of the local re-ranker's features
+const TERM_WEIGHT = 0.6;
+const PHRASE_WEIGHT = 0.25;
+const PROXIMITY_WEIGHT = 0.15;
+
+/**
+ * Re-ranks with the configured completion model, which rates every candidate in one request
+ */
+export class LlmReranker implements Reranker {
+  readonly name: string;
+
+  constructor(private provider: CompletionProvider) {
+    this.name = `llm:${provider.id}`;
+  }
+
+  async rerank(query: string, candidates: RerankCandidate[], signal?: AbortSignal): Promise<number[]> {
+    const passages = candidates
+      .map((candidate, i) => `[${i + 1}] ${candidate.text.replace(/\s+/g, ' ').slice(0, LLM_PASSAGE_CHARS)}`)
+      .join('\n\n');
+
+    const reply = await this.provider.complete({
+      messages: [
+        {
+          role: 'system',
+          content: 'You rate how well documentation passages answer a question. ' +
+            'Reply with only a JSON array of numbers from 0 (irrelevant) to 10 (fully answers it), ' +
+            'one per passage, in passage order.',
+        },
+        { role: 'user', content: `Question: ${query}\n\nPassages:\n${passages}` },
+      ],
+      maxTokens: scoreArrayMaxTokens(candidates.length),
+      temperature: 0,
+      signal,
+    });
+
+    const scores = parseScoreArray(reply, candidates.length);
+    if (!scores) {
+      throw new Error('Re-ranker returned an invalid response');
+    }
+    return scores;
+  }
+}
+
+/**
+ * Re-ranks offline by scoring each query/candidate pair on term coverage,
+ * matched query phrases (adjacent term pairs) and how close together the matches are
+ */
+export class LocalReranker implements Reranker {
+  readonly name = 'local';
+
+  async rerank(query: string, candidates: RerankCandidate[]): Promise<number[]> {
+    const queryTokens = tokenize(query);
+    const queryTerms = new Set(queryTokens);
+    if (queryTerms.size === 0) return candidates.map(() => 0);
+    const queryPhrases = new Set(queryTokens.slice(1).map((token, i) => `${queryTokens[i]} ${token}`));
+
+    return candidates.map(({ text }) => {
+      const tokens = tokenize(text);
+      const matched = new Set(tokens.filter(token => queryTerms.has(token)));
+      const coverage = matched.size / queryTerms.size;
+
+      const phrases = new Set(tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`));
+      const phraseCoverage = queryPhrases.size > 0
+        ? Array.from(queryPhrases).filter(phrase => phrases.has(phrase)).length / queryPhrases.size
+        : coverage;
+
+      return TERM_WEIGHT * coverage + PHRASE_WEIGHT * phraseCoverage + PROXIMITY_WEIGHT * proximity(tokens, matched);
+    });
+  }
+}
+
+/**
+ * How tightly the matched terms cluster: distinct matches divided by the
+ * length of the shortest token window that contains all of them
+ */
+function proximity(tokens: string[], matched: Set<string>): number {
+  if (matched.size === 0) return 0;
+
+  const counts = new Map<string, number>();
+  let shortest = Infinity;
+  let start = 0;
+
+  for (let end = 0; end < tokens.length; end++) {
+    if (!matched.has(tokens[end])) continue;
+    counts.set(tokens[end], (counts.get(tokens[end]) || 0) + 1);
+
+    while (counts.size === matched.size) {
+      shortest = Math.min(shortest, end - start + 1);
+      const token = tokens[start++];
+      if (!matched.has(token)) continue;
+      const count = counts.get(token)! - 1;
+      if (count === 0) counts.delete(token);
+      else counts.set(token, count);
+    }
+  }
+
+  return matched.size / shortest;
+}
+
+/**
+ * Pick `count` candidates by maximal marginal relevance: each pick maximizes
+ * lambda * relevance - (1 - lambda) * (highest similarity to an earlier pick).
+ * lambda = 1 ranks by relevance alone; lower values favor diversity.
+ */
+export function selectWithMmr<T extends MmrCandidate>(candidates: T[], count: number, lambda: number): T[] {
+  const remaining = [...candidates];
+  const selected: T[] = [];
+
+  while (selected.length < count && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+
+    remaining.forEach((candidate, i) => {
+      const redundancy = selected.reduce((max, pick) => {
+        if (!candidate.embedding || !pick.embedding) return max;
+        return Math.max(max, cosineSimilarity(candidate.embedding, pick.embedding));
+      }, 0);
+      const score = lambda * candidate.relevance - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    });
+
+    selected.push(remaining.splice(bestIndex, 1)[0]);
+  }
+
+  return selected;
+}
@@ -0,0 +1,107 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  IndexedDBRevisionStore,
+  MAX_REVISIONS,
+  MemoryRevisionStore,
+  revisionAsOf,
+  type RevisionStoreBackend,
+} from './revision-store';
+import type { DocumentRevision } from './document-service';
+
+function revision(version: number): DocumentRevision {
+  return { version, content: `content ${version}`, savedAt: new Date(2026, 0, version) };
+}
+
+describe('MemoryRevisionStore', () => {
+  it('lists a document\'s revisions oldest first', async () => {
+    const store = new MemoryRevisionStore();
+    await store.put('a', revision(2));
+    await store.put('a', revision(1));
+    await store.put('b', revision(1));
+
+    expect((await store.list('a')).map(r => r.version)).toEqual([1, 2]);
+    expect(await store.list('missing')).toEqual([]);
+  });
+
+  it('replaces a revision saved again under the same version', async () => {
+    const store = new MemoryRevisionStore();
+    await store.put('a', revision(1));
+    await store.put('a', { ...revision(1), content: 'updated' });
+
+    expect(await store.list('a')).toEqual([{ ...revision(1), content: 'updated' }]);
+  });
+
+  it('prunes all but the newest revisions', async () => {
+    const store = new MemoryRevisionStore();
+    for (let version = 1; version <= 5; version++) await store.put('a', revision(version));
+    await store.prune('a', 2);
+
+    expect((await store.list('a')).map(r => r.version)).toEqual([4, 5]);
+  });
+
+  it('deletes one document\'s revisions or all of them', async () => {
+    const store = new MemoryRevisionStore();
+    await store.put('a', revision(1));
+    await store.put('b', revision(1));
+
+    await store.deleteDocument('a');
+    expect(await store.list('a')).toEqual([]);
+    expect(await store.getStats()).toMatchObject({ entries: 1 });
+
+    await store.clear();
+    expect(await store.getStats()).toEqual({ entries: 0, bytes: 0 });
+  });
+});
+
+describe('IndexedDBRevisionStore', () => {
+  const store: RevisionStoreBackend = new IndexedDBRevisionStore();
+
+  beforeEach(async () => {
+    await store.clear();
+  });
+
+  it('lists only a document\'s own revisions, oldest first', async () => {
+    await store.put('a', revision(2));
+    await store.put('a', revision(1));
+    await store.put('ab', revision(3));
+    await store.put('a', { ...revision(2), content: 'updated' });
+
+    expect(await store.list('a')).toEqual([revision(1), { ...revision(2), content: 'updated' }]);
+    expect((await store.list('ab')).map(r => r.version)).toEqual([3]);
+  });
+
+  it('keeps the newest MAX_REVISIONS revisions when pruned', async () => {
+    const total = MAX_REVISIONS + 5;
+    for (let version = 1; version <= total; version++) await store.put('a', revision(version));
+    await store.put('b', revision(1));
+    await store.prune('a', MAX_REVISIONS);
+
+    const versions = (await store.list('a')).map(r => r.version);
+    expect(versions).toHaveLength(MAX_REVISIONS);
+    expect(versions[0]).toBe(6);
+    expect(versions[versions.length - 1]).toBe(total);
+    expect(await store.list('b')).toHaveLength(1);
+  });
+
+  it('reads back the version current at a point in time', async () => {
+    for (let version = 1; version <= 3; version++) await store.put('a', revision(version));
+    const newestFirst = (await store.list('a')).reverse();
+
+    expect(revisionAsOf(newestFirst, new Date(2026, 0, 2, 12))?.content).toBe('content 2');
+    expect(revisionAsOf(newestFirst, new Date(2026, 0, 3))?.content).toBe('content 3');
+    expect(revisionAsOf(newestFirst, new Date(2025, 11, 31))).toBeUndefined();
+  });
+
+  it('deletes one document\'s revisions or all of them', async () => {
+    await store.put('a', revision(1));
+    await store.put('b', revision(1));
+
+    await store.deleteDocument('a');
+    expect(await store.list('a')).toEqual([]);
+    expect(await store.getStats()).toMatchObject({ entries: 1 });
+
+    await store.clear();
+    expect(await store.getStats()).toEqual({ entries: 0, bytes: 0 });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Revision Store - Earlier versions of document contents
+ * Kept out of localStorage, whose small quota the documents themselves need
+ */
+
+import type { DocumentRevision } from './document-service';
+import {
+  REVISIONS_STORE,
+  isIndexedDBAvailable,
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+} from './indexed-db';
+
+// Earlier versions kept per document (oldest are dropped first)
+export const MAX_REVISIONS = 20;
+
+// Types
+export interface StoredRevision extends DocumentRevision {
+  documentId: string;
+}
+
+export interface RevisionStoreBackend {
+  // A document's revisions, oldest first
+  list(documentId: string): Promise<DocumentRevision[]>;
+  put(documentId: string, revision: DocumentRevision): Promise<void>;
+  // Drop all but the newest `keep` revisions of a document
+  prune(documentId: string, keep: number): Promise<void>;
+  deleteDocument(documentId: string): Promise<void>;
+  clear(): Promise<void>;
+  getStats(): Promise<{ entries: number; bytes: number }>;
+}
+
+/**
+ * Approximate size of a revision (UTF-16 text)
+ */
+function revisionBytes(revision: DocumentRevision): number {
+  return (revision.content.length + JSON.stringify(revision.pages || []).length) * 2;
+}
+
+/**
+ * The version that was current at a point in time, from versions listed newest first;
+ * undefined when the document did not exist yet
+ */
+export function revisionAsOf(versions: DocumentRevision[], date: Date): DocumentRevision | undefined {
+  return versions.find(revision => revision.savedAt <= date);
+}
+
+/**
+ * Revision store kept only in memory (server rendering, tests, browsers without IndexedDB)
+ */
+export class MemoryRevisionStore implements RevisionStoreBackend {
+  private revisions: Map<string, DocumentRevision[]> = new Map();
+
+  async list(documentId: string): Promise<DocumentRevision[]> {
+    return (this.revisions.get(documentId) || []).slice();
+  }
+
+  async put(documentId: string, revision: DocumentRevision): Promise<void> {
+    const revisions = (this.revisions.get(documentId) || []).filter(r => r.version !== revision.version);
+    this.revisions.set(documentId, [...revisions, revision].sort((a, b) => a.version - b.version));
+  }
+
+  async prune(documentId: string, keep: number): Promise<void> {
+    const revisions = this.revisions.get(documentId);
+    if (revisions && revisions.length > keep) this.revisions.set(documentId, revisions.slice(-keep));
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    this.revisions.delete(documentId);
+  }
+
+  async clear(): Promise<void> {
+    this.revisions.clear();
+  }
+
+  async getStats(): Promise<{ entries: number; bytes: number }> {
+    const all = Array.from(this.revisions.values()).flat();
+    return { entries: all.length, bytes: all.reduce((sum, revision) => sum + revisionBytes(revision), 0) };
+  }
+}
+
+/**
+ * Revision store persisted in IndexedDB, keyed by document ID and version
+ */
+export class IndexedDBRevisionStore implements RevisionStoreBackend {
+  /**
+   * Key range covering every revision of a document, in version order
+   */
+  private documentRange(documentId: string): IDBKeyRange {
+    return IDBKeyRange.bound([documentId, 0], [documentId, Infinity]);
+  }
+
+  async list(documentId: string): Promise<DocumentRevision[]> {
+    const db = await openDatabase();
+    const transaction = db.transaction(REVISIONS_STORE, 'readonly');
+    const stored = await requestToPromise(
+      transaction.objectStore(REVISIONS_STORE).getAll(this.documentRange(documentId))
+    ) as StoredRevision[];
+    return stored.map(({ documentId: _documentId, ...revision }) => revision);
+  }
+
+  async put(documentId: string, revision: DocumentRevision): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(REVISIONS_STORE, 'readwrite');
+    const stored: StoredRevision = { ...revision, documentId };
+    transaction.objectStore(REVISIONS_STORE).put(stored);
+    await transactionDone(transaction);
+  }
+
+  async prune(documentId: string, keep: number): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(REVISIONS_STORE, 'readwrite');
+    const store = transaction.objectStore(REVISIONS_STORE);
+    const keys = await requestToPromise(store.getAllKeys(this.documentRange(documentId)));
+    keys.slice(0, Math.max(0, keys.length - keep)).forEach(key => store.delete(key));
+    await transactionDone(transaction);
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(REVISIONS_STORE, 'readwrite');
+    transaction.objectStore(REVISIONS_STORE).delete(this.documentRange(documentId));
+    await transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(REVISIONS_STORE, 'readwrite');
+    transaction.objectStore(REVISIONS_STORE).clear();
+    await transactionDone(transaction);
+  }
+
+  async getStats(): Promise<{ entries: number; bytes: number }> {
+    const db = await openDatabase();
+    const transaction = db.transaction(REVISIONS_STORE, 'readonly');
+    const stored = await requestToPromise(transaction.objectStore(REVISIONS_STORE).getAll()) as StoredRevision[];
+    return { entries: stored.length, bytes: stored.reduce((sum, revision) => sum + revisionBytes(revision), 0) };
+  }
+}
+
+/**
+ * Create the default backend for the current environment
+ */
+export function createDefaultRevisionStore(): RevisionStoreBackend {
+  return isIndexedDBAvailable() ? new IndexedDBRevisionStore() : new MemoryRevisionStore();
+}
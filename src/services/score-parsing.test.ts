@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { parseScoreArray } from './score-parsing';
+
+describe('parseScoreArray', () => {
+  it('rescales an array of ratings to between 0 and 1', () => {
+    expect(parseScoreArray(' [10, 5, 0, 12, -1]\n', 5)).toEqual([1, 0.5, 0, 1, 0]);
+  });
+
+  it('accepts the array inside a code fence', () => {
+    expect(parseScoreArray('```json\n[7, 3]\n```', 2)).toEqual([0.7, 0.3]);
+  });
+
+  it('rejects replies holding more than the array', () => {
+    expect(parseScoreArray('Passage [1] is the most relevant.', 1)).toBeNull();
+    expect(parseScoreArray('Scores: [8]', 1)).toBeNull();
+    expect(parseScoreArray('[1] [8]', 1)).toBeNull();
+  });
+
+  it('rejects arrays of the wrong length or with non-numeric ratings', () => {
+    expect(parseScoreArray('[8, 2]', 3)).toBeNull();
+    expect(parseScoreArray('["8", 2]', 2)).toBeNull();
+    expect(parseScoreArray('[8, 2', 2)).toBeNull();
+  });
+});
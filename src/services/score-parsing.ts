@@ -0,0 +1,37 @@
+/**
+ * Score Parsing - Ratings returned by the completion model as a JSON array
+ * Shared by the reranker and the answer verifier, which both ask for one rating per item
+ */
+
+/**
+ * Completion token budget for a reply holding a JSON array of `count` ratings
+ */
+export function scoreArrayMaxTokens(count: number): number {
+  return count * 4 + 16;
+}
+
+/**
+ * Read a JSON array of `count` ratings from 0 to 10 out of a model reply, rescaled between 0 and 1.
+ * The reply must hold only the array (a Markdown code fence around it is allowed), so a passage
+ * marker such as [1] in a chatty reply is never taken for a rating. Null otherwise.
+ */
+export function parseScoreArray(reply: string, count: number): number[] | null {
+  const body = reply.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/i, '$1');
+  if (!/^\[[^[\]]*\]$/.test(body)) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return null;
+  }
+  if (
+    !Array.isArray(parsed) ||
+    parsed.length !== count ||
+    !parsed.every(score => typeof score === 'number' && Number.isFinite(score))
+  ) {
+    return null;
+  }
+
+  return (parsed as number[]).map(score => Math.min(1, Math.max(0, score / 10)));
+}
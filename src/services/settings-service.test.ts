@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SETTINGS, getModelTokenLimit, SettingsService } from './settings-service';
+
+const SETTINGS_STORAGE_KEY = 'docuquery_settings';
+const LEGACY_API_KEY_STORAGE_KEY = 'docu-query-openai-key';
+
+function storeSettings(settings: Record<string, unknown>) {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+describe('SettingsService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  describe('loading', () => {
+    it('uses the defaults when nothing is stored', () => {
+      expect(new SettingsService().getSettings()).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it('keeps valid stored values and replaces invalid ones with defaults', () => {
+      storeSettings({ temperature: 1.2, hybridWeight: 7, provider: 'bogus', modelName: ' gpt-4o ', cacheExpiration: 'soon' });
+      const settings = new SettingsService().getSettings();
+
+      expect(settings.temperature).toBe(1.2);
+      expect(settings.modelName).toBe('gpt-4o');
+      expect(settings.hybridWeight).toBe(DEFAULT_SETTINGS.hybridWeight);
+      expect(settings.provider).toBe(DEFAULT_SETTINGS.provider);
+      expect(settings.cacheExpiration).toBe(DEFAULT_SETTINGS.cacheExpiration);
+    });
+
+    it('falls back to the defaults when the stored JSON is unreadable', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      localStorage.setItem(SETTINGS_STORAGE_KEY, '{not json');
+
+      expect(new SettingsService().getSettings()).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it('fills in settings added after the stored ones were saved', () => {
+      storeSettings({ maxTokens: 500 });
+      const settings = new SettingsService().getSettings();
+
+      expect(settings.maxTokens).toBe(500);
+      expect(settings.verifyAnswers).toBe(DEFAULT_SETTINGS.verifyAnswers);
+    });
+
+    it('caps max tokens at the limit of the configured model', () => {
+      storeSettings({ modelName: 'gpt-4-turbo', maxTokens: 10000 });
+
+      expect(new SettingsService().getSettings().maxTokens).toBe(getModelTokenLimit('gpt-4-turbo'));
+    });
+
+    it('keeps a stored chunk overlap below the chunk size', () => {
+      storeSettings({ chunkSize: 80, chunkOverlap: 120 });
+
+      expect(new SettingsService().getSettings().chunkOverlap).toBe(79);
+    });
+  });
+
+  describe('legacy API key', () => {
+    it('is used when no key is stored in the settings', () => {
+      localStorage.setItem(LEGACY_API_KEY_STORAGE_KEY, 'sk-legacy');
+
+      expect(new SettingsService().getSettings().openaiApiKey).toBe('sk-legacy');
+    });
+
+    it('does not override a key stored in the settings', () => {
+      localStorage.setItem(LEGACY_API_KEY_STORAGE_KEY, 'sk-legacy');
+      storeSettings({ openaiApiKey: 'sk-current' });
+
+      expect(new SettingsService().getSettings().openaiApiKey).toBe('sk-current');
+    });
+
+    it('is removed once settings are saved', () => {
+      localStorage.setItem(LEGACY_API_KEY_STORAGE_KEY, 'sk-legacy');
+      const service = new SettingsService();
+      service.updateSettings({ temperature: 0.5 });
+
+      expect(localStorage.getItem(LEGACY_API_KEY_STORAGE_KEY)).toBeNull();
+      expect(JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY)!).openaiApiKey).toBe('sk-legacy');
+    });
+  });
+
+  describe('validation', () => {
+    it('reports the first error of each invalid field', () => {
+      const service = new SettingsService();
+      const result = service.validate({
+        ...DEFAULT_SETTINGS,
+        maxTokens: 0,
+        temperature: 3,
+        baseUrl: 'localhost:11434',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual({
+        maxTokens: 'Max tokens must be at least 1',
+        temperature: 'Temperature must be between 0 and 2',
+        baseUrl: 'Base URL must start with http:// or https://',
+      });
+    });
+
+    it('checks max tokens against the model limit', () => {
+      const result = new SettingsService().validate({ ...DEFAULT_SETTINGS, modelName: 'gpt-4-turbo', maxTokens: 5000 });
+
+      expect(result.errors.maxTokens).toBe('Max tokens cannot exceed 4096 for this model');
+    });
+
+    it('requires the chunk overlap to be smaller than the chunk size', () => {
+      const result = new SettingsService().validate({ ...DEFAULT_SETTINGS, chunkSize: 100, chunkOverlap: 100 });
+
+      expect(result.errors.chunkOverlap).toBe('Chunk overlap must be smaller than the chunk size');
+    });
+  });
+
+  describe('updates', () => {
+    it('does not save or publish invalid changes', () => {
+      const service = new SettingsService();
+      const callback = vi.fn();
+      service.onUpdate(callback);
+
+      const result = service.updateSettings({ temperature: -1 });
+
+      expect(result.success).toBe(false);
+      expect(service.getSettings().temperature).toBe(DEFAULT_SETTINGS.temperature);
+      expect(localStorage.getItem(SETTINGS_STORAGE_KEY)).toBeNull();
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it('saves valid changes and notifies subscribers with the previous settings', () => {
+      const service = new SettingsService();
+      const callback = vi.fn();
+      const unsubscribe = service.onUpdate(callback);
+
+      service.updateSettings({ baseUrl: '  http://localhost:11434  ' });
+
+      expect(service.getSettings().baseUrl).toBe('http://localhost:11434');
+      expect(new SettingsService().getSettings().baseUrl).toBe('http://localhost:11434');
+      expect(callback).toHaveBeenCalledWith(service.getSettings(), DEFAULT_SETTINGS);
+
+      unsubscribe();
+      service.updateSettings({ temperature: 0.1 });
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('resets to the defaults', () => {
+      const service = new SettingsService();
+      service.updateSettings({ temperature: 0.1 });
+      service.resetSettings();
+
+      expect(service.getSettings()).toEqual(DEFAULT_SETTINGS);
+      expect(localStorage.getItem(SETTINGS_STORAGE_KEY)).toBeNull();
+    });
+  });
+});
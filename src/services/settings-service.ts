@@ -0,0 +1,282 @@
+/**
+ * Settings Service - Validated application settings shared by services and pages
+ * Persisted under `docuquery_settings`; subscribers are notified on every change,
+ * including changes saved in another tab
+ */
+
+import { z } from 'zod';
+import { DEFAULT_CHUNKING_OPTIONS } from './chunking';
+import { getProviderOption, PROVIDER_OPTIONS, type ProviderId } from './llm-providers';
+
+// Storage keys
+const SETTINGS_STORAGE_KEY = 'docuquery_settings';
+// Key written by the quick API key dialog on the home page in earlier versions
+const LEGACY_API_KEY_STORAGE_KEY = 'docu-query-openai-key';
+
+// Maximum completion tokens per model; unknown models (e.g. local servers) use the default
+const MODEL_TOKEN_LIMITS: Record<string, number> = {
+  'gpt-4o-mini': 16384,
+  'gpt-4o': 16384,
+  'gpt-4-turbo': 4096,
+  'claude-3-5-haiku-latest': 8192,
+  'claude-3-5-sonnet-latest': 8192,
+  'claude-3-7-sonnet-latest': 64000,
+};
+const DEFAULT_TOKEN_LIMIT = 4096;
+
+const providerIds = PROVIDER_OPTIONS.map(option => option.id) as [ProviderId, ...ProviderId[]];
+
+const settingsShape = {
+  provider: z.enum(providerIds),
+  openaiApiKey: z.string().trim(),
+  baseUrl: z.string().trim().refine(
+    value => value === '' || /^https?:\/\/\S+$/.test(value),
+    'Base URL must start with http:// or https://'
+  ),
+  // Empty values fall back to the provider defaults
+  modelName: z.string().trim(),
+  embeddingModel: z.string().trim(),
+  apiVersion: z.string().trim(),
+  maxTokens: z.number({ invalid_type_error: 'Max tokens must be a number' })
+    .int('Max tokens must be a whole number')
+    .min(1, 'Max tokens must be at least 1'),
+  temperature: z.number().min(0, 'Temperature must be between 0 and 2').max(2, 'Temperature must be between 0 and 2'),
+  useLocalEmbeddings: z.boolean(),
+  // Tokens per chunk and tokens repeated from the previous chunk, for newly indexed documents
+  chunkSize: z.number({ invalid_type_error: 'Chunk size must be a number' })
+    .int('Chunk size must be a whole number')
+    .min(50, 'Chunk size must be at least 50 tokens')
+    .max(2000, 'Chunk size cannot exceed 2000 tokens'),
+  chunkOverlap: z.number({ invalid_type_error: 'Chunk overlap must be a number' })
+    .int('Chunk overlap must be a whole number')
+    .min(0, 'Chunk overlap cannot be negative'),
+  hybridWeight: z.number().min(0).max(1),
+  enableReranking: z.boolean(),
+  rerankCandidates: z.number({ invalid_type_error: 'Re-rank candidates must be a number' })
+    .int('Re-rank candidates must be a whole number')
+    .min(5, 'Re-rank at least 5 candidates')
+    .max(100, 'Re-rank at most 100 candidates'),
+  // 0 ranks purely by relevance; higher values favor chunks unlike those already picked
+  rerankDiversity: z.number().min(0).max(1),
+  answerThreshold: z.number().min(0).max(1),
+  verifyAnswers: z.boolean(),
+  // Ask the completion model to rate each answer's groundedness (one extra request per answer)
+  checkGroundedness: z.boolean(),
+  autoIndexDocuments: z.boolean(),
+  enableCaching: z.boolean(),
+  cacheExpiration: z.number({ invalid_type_error: 'Cache expiration must be a number' })
+    .int('Cache expiration must be a whole number of minutes')
+    .min(1, 'Cache expiration must be at least 1 minute')
+    .max(10080, 'Cache expiration cannot exceed 7 days'),
+};
+
+export const settingsSchema = z.object(settingsShape).superRefine((settings, ctx) => {
+  const limit = getModelTokenLimit(settings.modelName || getProviderOption(settings.provider).defaultModel);
+  if (settings.maxTokens > limit) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['maxTokens'],
+      message: `Max tokens cannot exceed ${limit} for this model`,
+    });
+  }
+  if (settings.chunkOverlap >= settings.chunkSize) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['chunkOverlap'],
+      message: 'Chunk overlap must be smaller than the chunk size',
+    });
+  }
+});
+
+export interface Settings {
+  provider: ProviderId;
+  openaiApiKey: string;
+  baseUrl: string;
+  modelName: string;
+  embeddingModel: string;
+  apiVersion: string;
+  maxTokens: number;
+  temperature: number;
+  useLocalEmbeddings: boolean;
+  chunkSize: number;
+  chunkOverlap: number;
+  hybridWeight: number;
+  enableReranking: boolean;
+  rerankCandidates: number;
+  rerankDiversity: number;
+  answerThreshold: number;
+  verifyAnswers: boolean;
+  checkGroundedness: boolean;
+  autoIndexDocuments: boolean;
+  enableCaching: boolean;
+  cacheExpiration: number;
+}
+
+export type SettingsErrors = Partial<Record<keyof Settings, string>>;
+
+export interface SaveSettingsResult {
+  success: boolean;
+  errors: SettingsErrors;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  provider: 'openai',
+  openaiApiKey: '',
+  baseUrl: '',
+  modelName: '',
+  embeddingModel: '',
+  apiVersion: '',
+  maxTokens: 1000,
+  temperature: 0.7,
+  useLocalEmbeddings: false,
+  chunkSize: DEFAULT_CHUNKING_OPTIONS.chunkSize,
+  chunkOverlap: DEFAULT_CHUNKING_OPTIONS.overlap,
+  hybridWeight: 0.5,
+  enableReranking: false,
+  rerankCandidates: 30,
+  rerankDiversity: 0.3,
+  answerThreshold: 0.2,
+  verifyAnswers: false,
+  checkGroundedness: false,
+  autoIndexDocuments: true,
+  enableCaching: true,
+  cacheExpiration: 60,
+};
+
+/**
+ * Maximum completion tokens allowed for a model
+ */
+export function getModelTokenLimit(modelName: string): number {
+  return MODEL_TOKEN_LIMITS[modelName] ?? DEFAULT_TOKEN_LIMIT;
+}
+
+/**
+ * Settings Service Class
+ */
+export class SettingsService {
+  private settings: Settings = { ...DEFAULT_SETTINGS };
+  private onUpdateCallbacks: Set<(settings: Settings, previous: Settings) => void> = new Set();
+
+  constructor() {
+    this.loadSettings();
+    if (typeof window !== 'undefined') {
+      // Keep tabs in sync when settings are saved elsewhere
+      window.addEventListener('storage', (event) => {
+        if (event.key !== SETTINGS_STORAGE_KEY && event.key !== null) return;
+        const previous = this.settings;
+        this.loadSettings();
+        this.notifyUpdate(previous);
+      });
+    }
+  }
+
+  /**
+   * Load settings from localStorage, keeping defaults for missing or invalid values
+   */
+  private loadSettings(): void {
+    if (typeof window === 'undefined') return;
+
+    let stored: Record<string, unknown> = {};
+    try {
+      stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}');
+    } catch (error) {
+      console.error('Error loading settings:', error);
+    }
+
+    const settings = { ...DEFAULT_SETTINGS } as Record<string, unknown>;
+    (Object.keys(settingsShape) as (keyof Settings)[]).forEach(key => {
+      const result = settingsShape[key].safeParse(stored[key]);
+      if (result.success) settings[key] = result.data;
+    });
+
+    if (!settings.openaiApiKey) {
+      settings.openaiApiKey = localStorage.getItem(LEGACY_API_KEY_STORAGE_KEY) || '';
+    }
+
+    // Fields are valid on their own at this point; only the per-model token limit and the overlap can still fail
+    const loaded = settings as unknown as Settings;
+    const limit = getModelTokenLimit(loaded.modelName || getProviderOption(loaded.provider).defaultModel);
+    this.settings = {
+      ...loaded,
+      maxTokens: Math.min(loaded.maxTokens, limit),
+      chunkOverlap: Math.min(loaded.chunkOverlap, loaded.chunkSize - 1),
+    };
+  }
+
+  /**
+   * Notify subscribers of settings updates
+   */
+  private notifyUpdate(previous: Settings): void {
+    this.onUpdateCallbacks.forEach(callback => callback(this.settings, previous));
+  }
+
+  /**
+   * Subscribe to settings updates
+   */
+  onUpdate(callback: (settings: Settings, previous: Settings) => void): () => void {
+    this.onUpdateCallbacks.add(callback);
+    return () => this.onUpdateCallbacks.delete(callback);
+  }
+
+  /**
+   * Get the current settings
+   */
+  getSettings(): Settings {
+    return this.settings;
+  }
+
+  /**
+   * Validate settings without saving them
+   */
+  validate(settings: Settings): SaveSettingsResult {
+    const result = settingsSchema.safeParse(settings);
+    const errors: SettingsErrors = {};
+    if (!result.success) {
+      result.error.issues.forEach(issue => {
+        const key = issue.path[0] as keyof Settings;
+        if (key && !errors[key]) errors[key] = issue.message;
+      });
+    }
+    return { success: result.success, errors };
+  }
+
+  /**
+   * Validate, persist and publish a settings change
+   */
+  updateSettings(changes: Partial<Settings>): SaveSettingsResult {
+    const next = { ...this.settings, ...changes };
+    const result = this.validate(next);
+    if (!result.success) return result;
+
+    const previous = this.settings;
+    this.settings = settingsSchema.parse(next) as Settings;
+
+    if (typeof window !== 'undefined') {
+      try {
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(this.settings));
+        localStorage.removeItem(LEGACY_API_KEY_STORAGE_KEY);
+      } catch (error) {
+        console.error('Error saving settings:', error);
+      }
+    }
+
+    this.notifyUpdate(previous);
+    return result;
+  }
+
+  /**
+   * Restore default settings
+   */
+  resetSettings(): void {
+    const previous = this.settings;
+    this.settings = { ...DEFAULT_SETTINGS };
+    if (typeof window !== 'undefined') {
+      localStorage.removeItem(SETTINGS_STORAGE_KEY);
+      localStorage.removeItem(LEGACY_API_KEY_STORAGE_KEY);
+    }
+    this.notifyUpdate(previous);
+  }
+}
+
+// Export singleton instance
+export const settingsService = new SettingsService();
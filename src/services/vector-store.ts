@@ -0,0 +1,135 @@
+/**
+ * Vector Store - Persistence backends for indexed document chunks
+ * The browser uses IndexedDB with binary Float32Array embeddings, written chunk by chunk
+ */
+
+import type { DocumentChunk } from './ai-service';
+import {
+  CHUNKS_STORE,
+  isIndexedDBAvailable,
+  isQuotaError,
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+} from './indexed-db';
+
+export interface VectorStoreBackend {
+  loadAll(): Promise<DocumentChunk[]>;
+  putChunk(chunk: DocumentChunk): Promise<void>;
+  deleteDocument(documentId: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Key used by earlier versions that kept the whole index as JSON in localStorage
+const LEGACY_STORAGE_KEY = 'docu-query-vectors';
+
+/**
+ * Vector store kept only in memory (server rendering, tests, browsers without IndexedDB)
+ */
+export class MemoryVectorStore implements VectorStoreBackend {
+  private chunks: Map<string, DocumentChunk> = new Map();
+
+  async loadAll(): Promise<DocumentChunk[]> {
+    return Array.from(this.chunks.values());
+  }
+
+  async putChunk(chunk: DocumentChunk): Promise<void> {
+    this.chunks.set(chunk.id, chunk);
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    this.chunks.forEach((chunk, id) => {
+      if (chunk.documentId === documentId) this.chunks.delete(id);
+    });
+  }
+
+  async clear(): Promise<void> {
+    this.chunks.clear();
+  }
+}
+
+/**
+ * Vector store persisted in IndexedDB
+ */
+export class IndexedDBVectorStore implements VectorStoreBackend {
+  /**
+   * Load every chunk, importing data left in localStorage by earlier versions first
+   */
+  async loadAll(): Promise<DocumentChunk[]> {
+    await this.migrateFromLocalStorage();
+
+    const db = await openDatabase();
+    const transaction = db.transaction(CHUNKS_STORE, 'readonly');
+    return await requestToPromise(transaction.objectStore(CHUNKS_STORE).getAll()) as DocumentChunk[];
+  }
+
+  async putChunk(chunk: DocumentChunk): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(CHUNKS_STORE, 'readwrite');
+      transaction.objectStore(CHUNKS_STORE).put(chunk);
+      await transactionDone(transaction);
+    } catch (error) {
+      if (isQuotaError(error)) {
+        throw new Error(
+          'Browser storage quota exceeded while saving the search index. Delete unused documents or free up disk space, then try again.'
+        );
+      }
+      throw error;
+    }
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(CHUNKS_STORE, 'readwrite');
+    const store = transaction.objectStore(CHUNKS_STORE);
+    const keys = await requestToPromise(store.index('documentId').getAllKeys(documentId));
+    keys.forEach(key => store.delete(key));
+    await transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(CHUNKS_STORE, 'readwrite');
+    transaction.objectStore(CHUNKS_STORE).clear();
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Move the legacy JSON index from localStorage into IndexedDB (runs once)
+   */
+  private async migrateFromLocalStorage(): Promise<void> {
+    if (typeof localStorage === 'undefined') return;
+
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) return;
+
+    let legacy: Record<string, DocumentChunk & { embedding: number[] }>;
+    try {
+      legacy = JSON.parse(stored);
+    } catch (error) {
+      // A corrupt legacy index must not keep the data already in IndexedDB from loading
+      console.error('Discarding unreadable legacy vector index:', error);
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      return;
+    }
+
+    const db = await openDatabase();
+    const transaction = db.transaction(CHUNKS_STORE, 'readwrite');
+    const store = transaction.objectStore(CHUNKS_STORE);
+
+    Object.values(legacy).forEach(chunk => {
+      store.put({ ...chunk, embedding: Float32Array.from(chunk.embedding) });
+    });
+    await transactionDone(transaction);
+
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+}
+
+/**
+ * Create the default backend for the current environment
+ */
+export function createDefaultVectorStore(): VectorStoreBackend {
+  return isIndexedDBAvailable() ? new IndexedDBVectorStore() : new MemoryVectorStore();
+}